@@ -0,0 +1,393 @@
+import { IncomingMessage } from 'node:http';
+import { ClickContext, CreateURLOptions, DuplicateAction, RedirectBehavior, RedirectMode, RedirectStatusCode, RoutingRule, SplitVariant, URLUpdate, UTMParams } from '../src/types';
+import { URLShortenerService } from '../src/utils/urlShortener';
+import { DEFAULT_COUNTDOWN_SECONDS } from '../src/utils/redirectBehavior';
+import { withoutPasswordHash } from '../src/utils/password';
+import { HttpError, RouteContext, Router, getClickContext } from './http';
+
+export interface ApiOptions {
+  trustProxy: boolean;
+}
+
+function requireObject(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function requireIds(body: unknown): string[] {
+  const ids = requireObject(body).ids;
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    throw new HttpError(400, 'ids must be an array of strings');
+  }
+  return ids;
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `${field} must be a string`);
+  }
+  return value;
+}
+
+function optionalStringArray(body: Record<string, unknown>, field: string): string[] | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new HttpError(400, `${field} must be an array of strings`);
+  }
+  return value;
+}
+
+/** Only the shape is checked here; the service validates the rule values. */
+function optionalRoutingRules(body: Record<string, unknown>): RoutingRule[] | undefined {
+  const value = body.routingRules;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every(rule => rule && typeof rule === 'object' && typeof rule.destination === 'string')) {
+    throw new HttpError(400, 'routingRules must be an array of rules with a destination');
+  }
+  return value.map(rule => ({ ...rule, id: typeof rule.id === 'string' ? rule.id : '' }));
+}
+
+function optionalVariants(body: Record<string, unknown>): SplitVariant[] | undefined {
+  const value = body.variants;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every(variant => variant && typeof variant === 'object' && typeof variant.destination === 'string')) {
+    throw new HttpError(400, 'variants must be an array of variants with a destination');
+  }
+  return value.map(variant => ({
+    ...variant,
+    id: typeof variant.id === 'string' ? variant.id : '',
+    weight: Number(variant.weight)
+  }));
+}
+
+function optionalUTM(body: Record<string, unknown>): UTMParams | undefined {
+  const value = body.utm;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, 'utm must be an object');
+  }
+  const utm = value as Record<string, unknown>;
+  return {
+    source: optionalString(utm, 'source'),
+    medium: optionalString(utm, 'medium'),
+    campaign: optionalString(utm, 'campaign'),
+    term: optionalString(utm, 'term'),
+    content: optionalString(utm, 'content')
+  };
+}
+
+/**
+ * The link's redirect behaviour. Clients written before redirect modes existed
+ * send `interstitial: true` for the countdown page, which still works.
+ */
+function optionalRedirectBehavior(body: Record<string, unknown>): RedirectBehavior | undefined {
+  const value = body.redirectBehavior;
+  if (value === undefined || value === null) {
+    return body.interstitial === undefined
+      ? undefined
+      : { mode: body.interstitial ? 'countdown' : 'instant', countdownSeconds: DEFAULT_COUNTDOWN_SECONDS };
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, 'redirectBehavior must be an object');
+  }
+  const behavior = value as Record<string, unknown>;
+  return {
+    mode: optionalString(behavior, 'mode') as RedirectMode,
+    countdownSeconds: behavior.countdownSeconds === undefined ? DEFAULT_COUNTDOWN_SECONDS : Number(behavior.countdownSeconds),
+    title: optionalString(behavior, 'title'),
+    description: optionalString(behavior, 'description')
+  };
+}
+
+/** ISO date string, or null to clear the date (e.g. no expiry). */
+function optionalDate(body: Record<string, unknown>, field: string): Date | null | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `${field} must be an ISO date string or null`);
+  }
+  return new Date(value);
+}
+
+/** Click details from the request, plus the ones only the visitor's browser knows. */
+function getBodyClickContext(req: IncomingMessage, input: Record<string, unknown>, trustProxy: boolean): ClickContext {
+  const context = getClickContext(req, trustProxy);
+  return {
+    ...context,
+    location: optionalString(input, 'location'),
+    language: optionalString(input, 'language') ?? context.language,
+    timeZone: optionalString(input, 'timeZone'),
+    visitorId: optionalString(input, 'visitorId')
+  };
+}
+
+const DUPLICATE_ACTIONS: DuplicateAction[] = ['reuse', 'extend', 'create'];
+
+function optionalDuplicateAction(body: Record<string, unknown>): DuplicateAction | undefined {
+  const value = optionalString(body, 'onDuplicate');
+  if (value !== undefined && !DUPLICATE_ACTIONS.includes(value as DuplicateAction)) {
+    throw new HttpError(400, `onDuplicate must be one of ${DUPLICATE_ACTIONS.join(', ')}`);
+  }
+  return value as DuplicateAction | undefined;
+}
+
+/** Create request body as createShortenedURL arguments; only types are checked here. */
+function parseCreateInput(body: unknown) {
+  const input = requireObject(body);
+  const originalUrl = optionalString(input, 'originalUrl');
+  if (!originalUrl) {
+    throw new HttpError(400, 'originalUrl is required');
+  }
+
+  const options: CreateURLOptions = {
+    redirectType: input.redirectType === undefined ? undefined : Number(input.redirectType) as RedirectStatusCode,
+    redirectBehavior: optionalRedirectBehavior(input),
+    tags: optionalStringArray(input, 'tags'),
+    folder: optionalString(input, 'folder'),
+    password: optionalString(input, 'password'),
+    maxClicks: input.maxClicks === undefined || input.maxClicks === null ? undefined : Number(input.maxClicks),
+    routingRules: optionalRoutingRules(input),
+    variants: optionalVariants(input),
+    utm: optionalUTM(input),
+    passthrough: input.passthrough === undefined ? undefined : Boolean(input.passthrough),
+    stripTracking: input.stripTracking === undefined ? undefined : Boolean(input.stripTracking),
+    onDuplicate: optionalDuplicateAction(input),
+    domainId: optionalString(input, 'domainId'),
+    fallbackUrl: optionalString(input, 'fallbackUrl'),
+    activatesAt: optionalDate(input, 'activatesAt') ?? undefined,
+    // null makes a link that never expires
+    expiresAt: optionalDate(input, 'expiresAt')
+  };
+
+  return {
+    originalUrl,
+    validityMinutes: input.validityMinutes === undefined ? undefined : Number(input.validityMinutes),
+    customShortcode: optionalString(input, 'customShortcode'),
+    options
+  };
+}
+
+/**
+ * JSON REST API over a URLShortenerService. Validation lives in the service,
+ * so the API enforces exactly the same rules as the browser app.
+ */
+export function registerApiRoutes(router: Router, service: URLShortenerService, options: ApiOptions) {
+  router.add('POST', '/api/urls', async ({ body }: RouteContext) => {
+    const input = parseCreateInput(body);
+    try {
+      const url = await service.createShortenedURL(input.originalUrl, input.validityMinutes, input.customShortcode, input.options);
+      return { status: 201, body: withoutPasswordHash(url) };
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : 'Failed to create short URL');
+    }
+  });
+
+  router.add('POST', '/api/urls/validate', async ({ body }) => {
+    const input = parseCreateInput(body);
+    return {
+      status: 200,
+      body: { error: await service.validateNewURL(input.originalUrl, input.validityMinutes, input.customShortcode, input.options) }
+    };
+  });
+
+  router.add('POST', '/api/urls/duplicate', async ({ body }) => {
+    const input = requireObject(body);
+    const originalUrl = optionalString(input, 'originalUrl');
+    if (originalUrl === undefined) {
+      throw new HttpError(400, 'originalUrl is required');
+    }
+    const url = await service.findDuplicate(originalUrl, Boolean(input.stripTracking), optionalString(input, 'domainId'));
+    return { status: 200, body: { url: url && withoutPasswordHash(url) } };
+  });
+
+  router.add('POST', '/api/destinations/check', async ({ body }) => {
+    const input = requireObject(body);
+    const destination = optionalString(input, 'destination');
+    if (destination === undefined) {
+      throw new HttpError(400, 'destination is required');
+    }
+    return {
+      status: 200,
+      body: {
+        error: await service.checkDestination(destination, optionalString(input, 'shortCode'), optionalString(input, 'domainId'))
+      }
+    };
+  });
+
+  router.add('POST', '/api/shortcodes/check', async ({ body }) => {
+    const input = requireObject(body);
+    const shortCode = optionalString(input, 'shortCode');
+    if (shortCode === undefined) {
+      throw new HttpError(400, 'shortCode is required');
+    }
+    return {
+      status: 200,
+      body: await service.checkShortcode(
+        shortCode,
+        optionalString(input, 'originalUrl'),
+        optionalStringArray(input, 'batch'),
+        optionalString(input, 'domainId')
+      )
+    };
+  });
+
+  router.add('GET', '/api/domains', async () => ({
+    status: 200,
+    body: { domains: await service.getDomains() }
+  }));
+
+  router.add('GET', '/api/urls', async () => ({
+    status: 200,
+    body: (await service.getAllURLs()).map(withoutPasswordHash)
+  }));
+
+  router.add('GET', '/api/urls/:shortCode', async ({ params, query }) => {
+    const url = await service.getURLByShortCode(params.shortCode, query.get('domainId') ?? undefined);
+    if (!url) {
+      throw new HttpError(404, 'Short URL not found');
+    }
+    return { status: 200, body: url };
+  });
+
+  router.add('GET', '/api/urls/:shortCode/resolve', async ({ params, query }) => {
+    const resolution = await service.resolveShortCode(params.shortCode, query.get('domainId') ?? undefined);
+    // With a fallback configured, visitors of unknown shortcodes still have somewhere to go
+    if (resolution.status === 'notfound' && !resolution.fallbackUrl) {
+      throw new HttpError(404, 'Short URL not found');
+    }
+    return { status: 200, body: resolution };
+  });
+
+  router.add('PATCH', '/api/urls/:id', async ({ params, body }) => {
+    const input = requireObject(body);
+    const update: URLUpdate = {
+      originalUrl: optionalString(input, 'originalUrl'),
+      shortCode: optionalString(input, 'shortCode'),
+      // null removes the expiry or activation time
+      expiresAt: optionalDate(input, 'expiresAt'),
+      activatesAt: optionalDate(input, 'activatesAt'),
+      tags: optionalStringArray(input, 'tags'),
+      // Unlike other fields, an empty folder is meaningful: it clears the folder
+      folder: typeof input.folder === 'string' ? input.folder : undefined,
+      // null removes the click limit
+      maxClicks: input.maxClicks === undefined ? undefined : input.maxClicks === null ? null : Number(input.maxClicks),
+      routingRules: optionalRoutingRules(input),
+      variants: optionalVariants(input),
+      // null removes the UTM parameters
+      utm: input.utm === null ? null : optionalUTM(input),
+      passthrough: input.passthrough === undefined ? undefined : Boolean(input.passthrough),
+      redirectBehavior: optionalRedirectBehavior(input),
+      // null removes the fallback
+      fallbackUrl: input.fallbackUrl === null ? null : optionalString(input, 'fallbackUrl')
+    };
+
+    try {
+      return { status: 200, body: withoutPasswordHash(await service.updateURL(params.id, update, optionalString(input, 'changedBy'))) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update short URL';
+      throw new HttpError(message === 'URL not found' ? 404 : 400, message);
+    }
+  });
+
+  router.add('POST', '/api/urls/:id/revisions/:revisionId/revert', async ({ params, body }) => {
+    const input = requireObject(body);
+    try {
+      const url = await service.revertRevision(params.id, params.revisionId, optionalString(input, 'changedBy'));
+      return { status: 200, body: withoutPasswordHash(url) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to revert revision';
+      throw new HttpError(message === 'Revision not found' ? 404 : 400, message);
+    }
+  });
+
+  router.add('DELETE', '/api/urls/:id', async ({ params }) => {
+    if (!await service.deleteURL(params.id)) {
+      throw new HttpError(404, 'Short URL not found');
+    }
+    return { status: 204 };
+  });
+
+  router.add('GET', '/api/trash', async () => ({
+    status: 200,
+    body: (await service.getTrashedURLs()).map(withoutPasswordHash)
+  }));
+
+  router.add('POST', '/api/trash', async ({ body }) => ({
+    status: 200,
+    body: { count: await service.deleteURLs(requireIds(body)) }
+  }));
+
+  router.add('POST', '/api/trash/restore', async ({ body }) => ({
+    status: 200,
+    body: { count: await service.restoreURLs(requireIds(body)) }
+  }));
+
+  router.add('POST', '/api/trash/purge', async ({ body }) => ({
+    status: 200,
+    body: { count: await service.purgeURLs(requireIds(body)) }
+  }));
+
+  // Password hashes only go into a backup on request, as they can be brute-forced offline
+  router.add('GET', '/api/backup', async ({ query }) => ({
+    status: 200,
+    body: await service.exportLinks(query.get('includePasswords') === 'true')
+  }));
+
+  router.add('POST', '/api/backup/restore', async ({ body }) => {
+    const input = requireObject(body);
+    if (input.mode !== 'merge' && input.mode !== 'replace') {
+      throw new HttpError(400, 'mode must be "merge" or "replace"');
+    }
+    if (!input.links || typeof input.links !== 'object') {
+      throw new HttpError(400, 'links must be an exported link envelope');
+    }
+    return { status: 200, body: await service.importLinks(input.links, input.mode) };
+  });
+
+  router.add('GET', '/api/urls/:id/clicks', async ({ params }) => {
+    const clicks = await service.getClicks(params.id);
+    if (!clicks) {
+      throw new HttpError(404, 'Short URL not found');
+    }
+    return { status: 200, body: clicks };
+  });
+
+  router.add('POST', '/api/urls/:shortCode/unlock', async ({ req, params, body }) => {
+    const input = requireObject(body);
+    const password = optionalString(input, 'password') ?? '';
+    const context = getBodyClickContext(req, input, options.trustProxy);
+    const source = optionalString(input, 'source') ?? req.headers.referer ?? 'direct';
+    return {
+      status: 200,
+      body: await service.unlockShortCode(params.shortCode, password, source, context, optionalString(input, 'domainId'))
+    };
+  });
+
+  router.add('POST', '/api/urls/:shortCode/clicks', async ({ req, params, body }) => {
+    const input = requireObject(body);
+    const context = getBodyClickContext(req, input, options.trustProxy);
+    const source = optionalString(input, 'source') ?? req.headers.referer ?? 'direct';
+
+    if (!await service.recordClick(params.shortCode, source, context, optionalString(input, 'domainId'))) {
+      throw new HttpError(404, 'Short URL not found or expired');
+    }
+    return { status: 201, body: { recorded: true } };
+  });
+}
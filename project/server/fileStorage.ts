@@ -0,0 +1,39 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { StorageAdapter } from '../src/utils/storage';
+
+/**
+ * Persists each key as `<directory>/<key>.json`. Writes go through a temp
+ * file and a rename so a crash mid-write never leaves a truncated store.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  readonly kind = 'file';
+
+  constructor(private directory: string) {}
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await readFile(this.fileFor(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const file = this.fileFor(key);
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${file}.tmp`, value, 'utf8');
+    await rename(`${file}.tmp`, file);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await rm(this.fileFor(key), { force: true });
+  }
+}
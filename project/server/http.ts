@@ -0,0 +1,154 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ClickContext } from '../src/types';
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RouteContext {
+  req: IncomingMessage;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export interface RouteResult {
+  status: number;
+  /** Serialized as JSON, except strings which are sent as HTML. */
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type RouteHandler = (context: RouteContext) => Promise<RouteResult>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+/** Minimal method + path router; `:name` segments become `params.name`. */
+export class Router {
+  private routes: Route[] = [];
+
+  add(method: string, path: string, handler: RouteHandler): this {
+    const keys: string[] = [];
+    const source = path.replace(/:([a-zA-Z]+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+    return this;
+  }
+
+  match(method: string, pathname: string): { handler: RouteHandler; params: Record<string, string> } | null | 'method-not-allowed' {
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(pathname);
+      if (!match) {
+        continue;
+      }
+      pathMatched = true;
+      if (route.method === method) {
+        const params: Record<string, string> = {};
+        route.keys.forEach((key, i) => {
+          try {
+            params[key] = decodeURIComponent(match[i + 1]);
+          } catch {
+            // e.g. a stray "%" in the path
+            throw new HttpError(400, 'Malformed URL');
+          }
+        });
+        return { handler: route.handler, params };
+      }
+    }
+    return pathMatched ? 'method-not-allowed' : null;
+  }
+}
+
+/** Path and query of the request; a request-target URL parsing rejects (e.g. `//`) is a 400. */
+export function getRequestUrl(req: IncomingMessage): URL {
+  try {
+    return new URL(req.url ?? '/', 'http://localhost');
+  } catch {
+    throw new HttpError(400, 'Malformed URL');
+  }
+}
+
+export async function readJsonBody(req: IncomingMessage, maxBytes = DEFAULT_MAX_BODY_BYTES): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  if (size === 0) {
+    return {};
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+export function sendResult(res: ServerResponse, result: RouteResult) {
+  const headers: Record<string, string> = { ...result.headers };
+  if (result.body === undefined) {
+    res.writeHead(result.status, headers).end();
+    return;
+  }
+  if (typeof result.body === 'string') {
+    headers['Content-Type'] = 'text/html; charset=utf-8';
+    res.writeHead(result.status, headers).end(result.body);
+    return;
+  }
+  headers['Content-Type'] = 'application/json; charset=utf-8';
+  res.writeHead(result.status, headers).end(JSON.stringify(result.body));
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Value of the named request cookie; one that can't be decoded is ignored. */
+export function getCookie(req: IncomingMessage, name: string): string | undefined {
+  for (const pair of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = pair.trim().split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Host the visitor asked for, honouring X-Forwarded-Host only behind a trusted proxy. */
+export function getRequestHost(req: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = trustProxy ? firstHeader(req.headers['x-forwarded-host'])?.split(',')[0].trim() : undefined;
+  return (forwarded || req.headers.host || '').toLowerCase();
+}
+
+/** Real client details for click recording, honouring X-Forwarded-For only behind a trusted proxy. */
+export function getClickContext(req: IncomingMessage, trustProxy: boolean): ClickContext {
+  const forwarded = trustProxy ? firstHeader(req.headers['x-forwarded-for'])?.split(',')[0].trim() : undefined;
+  return {
+    ipAddress: forwarded || req.socket.remoteAddress || 'unknown',
+    userAgent: firstHeader(req.headers['user-agent']) ?? 'unknown',
+    // First entry of e.g. "pt-BR,pt;q=0.9,en;q=0.8"
+    language: firstHeader(req.headers['accept-language'])?.split(',')[0].split(';')[0].trim() || undefined
+  };
+}
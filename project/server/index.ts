@@ -0,0 +1,126 @@
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { URLShortenerService } from '../src/utils/urlShortener';
+import { DEFAULT_SHORTCODE_OPTIONS, findShortcodeOptionsError } from '../src/utils/shortcodes';
+import { DEFAULT_DESTINATION_POLICY, findNotFoundFallbackError, parseDomainList } from '../src/utils/destinationPolicy';
+import { DEFAULT_DOMAIN_ID, findDomainListError, formatDomain, parseDomainPrefix } from '../src/utils/domains';
+import { BrandedDomain, ShortcodeAlphabet, ShortcodeOptions, ShortcodeStrategy } from '../src/types';
+import { logger } from '../src/utils/logger';
+import { FileStorageAdapter } from './fileStorage';
+import { HttpError, Router, getRequestUrl, readJsonBody, sendResult } from './http';
+import { registerApiRoutes } from './api';
+import { registerRedirectRoutes } from './redirect';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = path.resolve(process.env.DATA_DIR ?? 'data');
+const SHORT_URL_BASE = process.env.SHORT_URL_BASE ?? `http://localhost:${PORT}/s/`;
+const APP_URL = (process.env.APP_URL ?? 'http://localhost:5173').replace(/\/+$/, '');
+const CORS_ORIGIN = process.env.CORS_ORIGIN ?? '*';
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+const TRASH_RETENTION_DAYS = process.env.TRASH_RETENTION_DAYS ? Number(process.env.TRASH_RETENTION_DAYS) : undefined;
+const SHORTCODES: ShortcodeOptions = {
+  strategy: (process.env.SHORTCODE_STRATEGY as ShortcodeStrategy | undefined) ?? DEFAULT_SHORTCODE_OPTIONS.strategy,
+  length: process.env.SHORTCODE_LENGTH ? Number(process.env.SHORTCODE_LENGTH) : DEFAULT_SHORTCODE_OPTIONS.length,
+  alphabet: (process.env.SHORTCODE_ALPHABET as ShortcodeAlphabet | undefined) ?? DEFAULT_SHORTCODE_OPTIONS.alphabet,
+  caseInsensitive: process.env.SHORTCODE_CASE_INSENSITIVE === 'true'
+};
+const DESTINATIONS = {
+  allowedSchemes: process.env.ALLOWED_SCHEMES ? process.env.ALLOWED_SCHEMES.split(',').map(scheme => scheme.trim().toLowerCase()) : DEFAULT_DESTINATION_POLICY.allowedSchemes,
+  allowedDomains: parseDomainList(process.env.ALLOWED_DOMAINS ?? ''),
+  blockedDomains: parseDomainList(process.env.BLOCKED_DOMAINS ?? '')
+};
+// Each domain's id is its prefix without the scheme, e.g. `go.acme.com/s`, so it stays put across restarts
+const DOMAINS = (process.env.BRANDED_DOMAINS ?? '').split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+  const domain = parseDomainPrefix(entry, '');
+  if (!domain) {
+    const message = `Invalid branded domain "${entry}"`;
+    logger.error(message, undefined, 'Server');
+    throw new Error(message);
+  }
+  return { ...domain, id: formatDomain(domain).replace(/\/$/, '') } satisfies BrandedDomain;
+});
+const NOT_FOUND_FALLBACK_URL = process.env.NOT_FOUND_FALLBACK_URL || undefined;
+// Large enough to restore a backup with full click histories
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_MB ?? 10) * 1024 * 1024;
+
+const shortcodeError = findShortcodeOptionsError(SHORTCODES);
+if (shortcodeError) {
+  logger.error('Invalid shortcode configuration', { error: shortcodeError, ...SHORTCODES }, 'Server');
+  throw new Error(shortcodeError);
+}
+
+const defaultDomain = parseDomainPrefix(SHORT_URL_BASE, DEFAULT_DOMAIN_ID);
+const domainError = defaultDomain ? findDomainListError(DOMAINS, defaultDomain) : `Invalid SHORT_URL_BASE "${SHORT_URL_BASE}"`;
+if (domainError) {
+  logger.error('Invalid branded domain configuration', { error: domainError, domains: DOMAINS }, 'Server');
+  throw new Error(domainError);
+}
+
+const fallbackError = NOT_FOUND_FALLBACK_URL && defaultDomain
+  ? findNotFoundFallbackError(NOT_FOUND_FALLBACK_URL, DESTINATIONS, [defaultDomain, ...DOMAINS])
+  : null;
+if (fallbackError) {
+  logger.error('Invalid NOT_FOUND_FALLBACK_URL', { error: fallbackError, notFoundFallbackUrl: NOT_FOUND_FALLBACK_URL }, 'Server');
+  throw new Error(fallbackError);
+}
+
+const service = new URLShortenerService({
+  storage: new FileStorageAdapter(DATA_DIR),
+  baseUrl: SHORT_URL_BASE,
+  domains: DOMAINS,
+  sync: false,
+  trashRetentionDays: TRASH_RETENTION_DAYS,
+  shortcodes: SHORTCODES,
+  destinations: DESTINATIONS,
+  notFoundFallbackUrl: NOT_FOUND_FALLBACK_URL,
+  // Links pointing at the web app's copies of our short links would loop just the same
+  linkPrefixes: [`${APP_URL}/s/`, `${APP_URL}/go/`]
+});
+
+const router = new Router();
+registerApiRoutes(router, service, { trustProxy: TRUST_PROXY });
+registerRedirectRoutes(router, service, { appUrl: APP_URL, trustProxy: TRUST_PROXY });
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': CORS_ORIGIN,
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+const server = createServer(async (req, res) => {
+  Object.entries(corsHeaders).forEach(([name, value]) => res.setHeader(name, value));
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  try {
+    const url = getRequestUrl(req);
+    const match = router.match(req.method ?? 'GET', url.pathname);
+    if (match === null) {
+      throw new HttpError(404, 'Not found');
+    }
+    if (match === 'method-not-allowed') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+
+    const body = req.method === 'POST' || req.method === 'PATCH' ? await readJsonBody(req, MAX_BODY_BYTES) : undefined;
+    sendResult(res, await match.handler({ req, params: match.params, query: url.searchParams, body }));
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) {
+      logger.error('Unhandled API error', error instanceof Error ? error.message : error, 'Server');
+    }
+    sendResult(res, {
+      status,
+      body: { error: error instanceof HttpError ? error.message : 'Internal server error' }
+    });
+  }
+});
+
+service.whenReady().then(() => {
+  server.listen(PORT, () => {
+    logger.info('API server listening', { port: PORT, dataDir: DATA_DIR }, 'Server');
+  });
+});
@@ -0,0 +1,123 @@
+import { URLShortenerService } from '../src/utils/urlShortener';
+import { logger } from '../src/utils/logger';
+import { describeExpiry } from '../src/utils/expiry';
+import { resolveDestination } from '../src/utils/routing';
+import { buildDestination } from '../src/utils/utm';
+import { isUnsafeDestination } from '../src/utils/destinationPolicy';
+import { DEFAULT_DOMAIN_ID } from '../src/utils/domains';
+import { takeSourceTag } from '../src/utils/clickSource';
+import { RouteContext, RouteResult, Router, getClickContext, getCookie, getRequestHost } from './http';
+
+const VISITOR_COOKIE = 'visitor_id';
+const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export interface RedirectOptions {
+  /** Origin of the web app, which hosts the interstitial page at `/go/[:domainId/]:shortCode`. */
+  appUrl: string;
+  trustProxy: boolean;
+}
+
+function page(title: string, message: string): string {
+  return `<!doctype html><html lang="en"><head><meta charset="UTF-8"><title>${title}</title></head>`
+    + `<body style="font-family:sans-serif;text-align:center;padding:4rem"><h1>${title}</h1><p>${message}</p></body></html>`;
+}
+
+/**
+ * Real HTTP redirects for short links, so crawlers, unfurlers and curl follow
+ * them. Links with a countdown or confirmation page are sent to the web app
+ * instead, which records the click itself. Every configured domain's path is served;
+ * the Host header picks the domain, falling back to the default one.
+ */
+export function registerRedirectRoutes(router: Router, service: URLShortenerService, options: RedirectOptions) {
+  const handle = (pathPrefix: string) => async ({ req, params, query }: RouteContext): Promise<RouteResult> => {
+    const { shortCode } = params;
+    const host = getRequestHost(req, options.trustProxy);
+    const candidates = service.listDomains().filter(domain => domain.pathPrefix === pathPrefix);
+    const domain = candidates.find(d => d.origin && new URL(d.origin).host === host)
+      ?? candidates.find(d => d.id === DEFAULT_DOMAIN_ID);
+    const { status, url, fallbackUrl } = domain
+      ? await service.resolveShortCode(shortCode, domain.id)
+      : { status: 'notfound' as const, url: null, fallbackUrl: undefined };
+    // Keep the query string, source tag included, so the web app can record and pass it through too
+    const appSearch = query.toString();
+    const { source: taggedSource, search } = takeSourceTag(appSearch);
+    const appPath = domain && domain.id !== DEFAULT_DOMAIN_ID
+      ? `${encodeURIComponent(domain.id)}/${encodeURIComponent(shortCode)}`
+      : encodeURIComponent(shortCode);
+    const appPage = `${options.appUrl}/go/${appPath}${appSearch ? `?${appSearch}` : ''}`;
+
+    // The web app asks for the password and records the click once it is unlocked,
+    // or counts down until a scheduled link goes live
+    if (status === 'locked' || status === 'scheduled') {
+      return { status: 302, headers: { Location: appPage } };
+    }
+
+    // Expired links with a fallback, and unknown shortcodes when there is a global one, send visitors on
+    if ((status === 'notfound' || status === 'expired') && fallbackUrl && !isUnsafeDestination(fallbackUrl)) {
+      logger.info('Server redirect to fallback', { shortCode, host, status, fallbackUrl }, 'Server');
+      return { status: 302, headers: { Location: fallbackUrl, 'Cache-Control': 'private, no-store' } };
+    }
+
+    if (status === 'notfound' || !url || !domain) {
+      logger.warn('Server redirect for unknown short code', { shortCode, host }, 'Server');
+      return {
+        status: 404,
+        body: page('Link Not Found', "The shortened URL you're looking for doesn't exist or has been removed. "
+          + 'Check that it was copied in full, including upper- and lowercase letters.')
+      };
+    }
+
+    if (status === 'expired') {
+      return {
+        status: 410,
+        body: page('Link Expired', `${describeExpiry(url)} If you still need the page, ask whoever shared the link for a new one.`)
+      };
+    }
+
+    if (url.redirectBehavior.mode !== 'instant') {
+      return { status: 302, headers: { Location: appPage } };
+    }
+
+    const split = url.variants.length > 0;
+    // A cookie keeps returning visitors on the same split variant
+    const cookieVisitorId = split ? getCookie(req, VISITOR_COOKIE) : undefined;
+    const visitorId = split ? cookieVisitorId || crypto.randomUUID() : undefined;
+    const context = { ...getClickContext(req, options.trustProxy), visitorId };
+    // Time-of-day rules use the server's time zone; the visitor's isn't sent with a plain GET
+    const resolved = resolveDestination(url, { ...context, userAgent: context.userAgent ?? '', time: new Date() });
+    const { rule, variant } = resolved;
+    // Browsers never send the #fragment; they reapply it to a Location header that has none
+    const destination = buildDestination(url, resolved.destination, { search });
+    // Links saved before destinations were checked may still hold a javascript: or data: URL
+    if (isUnsafeDestination(destination)) {
+      logger.error('Refused to redirect to an unsafe destination', { shortCode, destination }, 'Server');
+      return { status: 403, body: page('Link Blocked', "This link points somewhere that isn't safe to open.") };
+    }
+
+    // HEAD requests come from link checkers and unfurlers, not visitors
+    if (req.method === 'GET') {
+      const referrer = req.headers.referer;
+      await service.recordClick(shortCode, taggedSource ?? (referrer || 'direct'), context, domain.id);
+    }
+
+    logger.info('Server redirect', { shortCode, domainId: domain.id, status: url.redirectType, matchedRule: rule?.id, variantId: variant?.id }, 'Server');
+    return {
+      status: url.redirectType,
+      headers: {
+        Location: destination,
+        // Routed links send visitors to different places, so shared caches must key on these headers
+        ...(url.routingRules.length > 0 ? { Vary: 'User-Agent, Accept-Language' } : {}),
+        ...(visitorId && visitorId !== cookieVisitorId
+          ? { 'Set-Cookie': `${VISITOR_COOKIE}=${visitorId}; Path=/; Max-Age=${VISITOR_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax` }
+          : {}),
+        // 301s are cached by browsers regardless; keep temporary and split redirects uncached so every visit is counted
+        'Cache-Control': url.redirectType === 301 && !split ? 'public, max-age=86400' : 'private, no-store'
+      }
+    };
+  };
+
+  new Set(service.listDomains().map(domain => domain.pathPrefix)).forEach(pathPrefix => {
+    router.add('GET', `${pathPrefix}:shortCode`, handle(pathPrefix));
+    router.add('HEAD', `${pathPrefix}:shortCode`, handle(pathPrefix));
+  });
+}
@@ -1,19 +1,31 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import Header from './components/Header';
 import Home from './pages/Home';
 import Statistics from './pages/Statistics';
 import Logs from './pages/Logs';
+import Settings from './pages/Settings';
 import Redirect from './pages/Redirect';
 import { logger } from './utils/logger';
+import { settingsStore } from './utils/settings';
+import { usesApiServer } from './utils/backend';
 
 function App() {
+  const [domains, setDomains] = useState(settingsStore.get().domains);
+
   useEffect(() => {
     // Initialize the logger
     logger.initialize();
     logger.info('Application started', { version: '1.0.0' }, 'App');
   }, []);
 
+  useEffect(() => settingsStore.subscribe(settings => setDomains(settings.domains)), []);
+
+  // Branded domains point at this app too; with the API server, it serves them and sends visitors to /go/
+  const shortLinkPaths = usesApiServer
+    ? []
+    : [...new Set(domains.map(domain => domain.pathPrefix))].filter(pathPrefix => pathPrefix !== '/s/');
+
   return (
     <Router>
       <div className="min-h-screen bg-gray-100">
@@ -23,7 +35,14 @@ function App() {
             <Route path="/" element={<Home />} />
             <Route path="/statistics" element={<Statistics />} />
             <Route path="/logs" element={<Logs />} />
+            <Route path="/settings" element={<Settings />} />
             <Route path="/s/:shortCode" element={<Redirect />} />
+            {shortLinkPaths.map(pathPrefix => (
+              <Route key={pathPrefix} path={`${pathPrefix}:shortCode`} element={<Redirect />} />
+            ))}
+            {/* Interstitial page the API server sends opted-in links to */}
+            <Route path="/go/:shortCode" element={<Redirect />} />
+            <Route path="/go/:domainId/:shortCode" element={<Redirect />} />
           </Routes>
         </main>
       </div>
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Download, Upload, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { RestoreMode } from '../types';
+import { BackupFile, BackupRestoreResult, createBackup, parseBackup, restoreBackup } from '../utils/backup';
+import { logger } from '../utils/logger';
+
+const BackupRestore: React.FC = () => {
+  const [includeLogsInBackup, setIncludeLogsInBackup] = useState(false);
+  const [includePasswordsInBackup, setIncludePasswordsInBackup] = useState(false);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [restoreLogs, setRestoreLogs] = useState(true);
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [result, setResult] = useState<BackupRestoreResult | null>(null);
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    try {
+      const data = await createBackup(includeLogsInBackup, includePasswordsInBackup);
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `url-shortener-backup-${format(new Date(), 'yyyy-MM-dd-HHmm')}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      logger.error('Failed to create backup', err instanceof Error ? err.message : err, 'BackupRestore');
+      setError(err instanceof Error ? err.message : 'Failed to create backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setError('');
+    setResult(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+      setFileName(file.name);
+    } catch (err) {
+      setBackup(null);
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'Could not read file'}`);
+      logger.warn('Rejected backup file', { fileName: file.name }, 'BackupRestore');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) {
+      return;
+    }
+    if (mode === 'replace' && !window.confirm('Replace all current links with the backup? Links not in the backup will be deleted.')) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      setResult(await restoreBackup(backup, mode, restoreLogs));
+      setBackup(null);
+    } catch (err) {
+      logger.error('Failed to restore backup', err instanceof Error ? err.message : err, 'BackupRestore');
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-8">
+      <div className="space-y-3">
+        <h2 className="text-2xl font-bold text-gray-900">Backup</h2>
+        <p className="text-sm text-gray-600">
+          Download every link, including trashed ones, with its click and revision history as a JSON file.
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includeLogsInBackup}
+            onChange={(e) => setIncludeLogsInBackup(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <span>Include application logs</span>
+        </label>
+        <label className="flex items-start space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includePasswordsInBackup}
+            onChange={(e) => setIncludePasswordsInBackup(e.target.checked)}
+            className="mt-0.5 rounded border-gray-300"
+          />
+          <span>
+            Include password hashes. Anyone with the file could try to guess the passwords offline, so keep it safe.
+            Without them, protected links can only be restored over themselves.
+          </span>
+        </label>
+        <button
+          onClick={handleDownload}
+          disabled={isWorking}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          <span>Download Backup</span>
+        </button>
+      </div>
+
+      <div className="space-y-3 border-t border-gray-200 pt-6">
+        <h2 className="text-2xl font-bold text-gray-900">Restore</h2>
+        <label className="flex items-center justify-center space-x-2 px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-400 hover:text-blue-600 cursor-pointer transition-colors">
+          <Upload className="w-5 h-5" />
+          <span>{backup ? `Replace ${fileName}` : 'Choose a backup .json file'}</span>
+          <input type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {backup && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              {backup.links.records.length} links
+              {backup.logs && ` and ${backup.logs.records.length} log entries`}
+              {' '}exported {format(new Date(backup.exportedAt), 'MMM dd, yyyy HH:mm')}
+            </p>
+
+            <div className="space-y-2">
+              <label className="flex items-start space-x-2 text-sm text-gray-700">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+                <span>
+                  <span className="font-medium">Merge</span> — keep current links and add the ones that are missing.
+                  Taken shortcodes get a numeric suffix.
+                </span>
+              </label>
+              <label className="flex items-start space-x-2 text-sm text-gray-700">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+                <span>
+                  <span className="font-medium">Replace</span> — delete current links and restore only the backup.
+                </span>
+              </label>
+              {backup.logs && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={restoreLogs}
+                    onChange={(e) => setRestoreLogs(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span>Restore logs too</span>
+                </label>
+              )}
+            </div>
+
+            {mode === 'replace' && (
+              <p className="flex items-center space-x-2 text-sm text-amber-700">
+                <AlertTriangle className="w-4 h-4" />
+                <span>Links that are not in the backup will be permanently deleted.</span>
+              </p>
+            )}
+
+            <button
+              onClick={handleRestore}
+              disabled={isWorking}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isWorking ? 'Restoring...' : 'Restore Backup'}
+            </button>
+          </div>
+        )}
+
+        {result && (
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-md space-y-3 text-sm">
+            <p className="text-gray-900">
+              Imported {result.links.imported.length}, renamed {result.links.renamed.length},
+              skipped {result.links.skipped.length}
+              {result.logs !== undefined && `; restored ${result.logs} log entries`}.
+            </p>
+            {result.links.renamed.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700">Renamed</p>
+                <ul className="list-disc list-inside text-gray-600">
+                  {result.links.renamed.map(({ from, to }) => (
+                    <li key={from + to}><code>{from}</code> → <code>{to}</code></li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {result.links.skipped.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700">Skipped</p>
+                <ul className="list-disc list-inside text-gray-600">
+                  {result.links.skipped.map(({ shortCode, reason }, index) => (
+                    <li key={index}><code>{shortCode}</code>: {reason}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupRestore;
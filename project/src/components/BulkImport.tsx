@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { Upload, Download, CheckCircle, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { ImportResult, ImportRow, formatImportResults, parseImportFile } from '../utils/linkImport';
+import { urlShortenerService } from '../utils/backend';
+import { logger } from '../utils/logger';
+import { parseTagInput } from '../utils/tags';
+import { canonicalShortcode } from '../utils/shortcodePolicy';
+import { DEFAULT_DOMAIN_ID } from '../utils/domains';
+import { settingsStore } from '../utils/settings';
+
+interface PreviewRow extends ImportRow {
+  skip: boolean;
+}
+
+interface RowCheck {
+  /** The row values the check was run against, so stale results are ignored. */
+  key: string;
+  error: string | null;
+}
+
+const DEFAULT_VALIDITY_MINUTES = 30;
+
+const rowKey = (row: ImportRow) =>
+  [row.originalUrl, row.validityMinutes, row.customShortcode, row.tags].join('\u0000');
+
+const toValidity = (row: ImportRow) =>
+  row.validityMinutes.trim() === '' ? DEFAULT_VALIDITY_MINUTES : Number(row.validityMinutes);
+
+const BulkImport: React.FC = () => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [checks, setChecks] = useState<Record<number, RowCheck>>({});
+  const [fileError, setFileError] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [results, setResults] = useState<ImportResult[]>([]);
+
+  const checkRow = async (row: ImportRow) => {
+    const key = rowKey(row);
+    const error = await urlShortenerService.validateNewURL(
+      row.originalUrl,
+      toValidity(row),
+      row.customShortcode || undefined,
+      { tags: parseTagInput(row.tags) }
+    );
+    setChecks(prev => ({ ...prev, [row.line]: { key, error } }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setFileError('');
+    setResults([]);
+    setChecks({});
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      setFileName(file.name);
+      setRows(parsed.map(row => ({ ...row, skip: false })));
+      logger.info('Import file loaded', { fileName: file.name, rowCount: parsed.length }, 'BulkImport');
+      for (const row of parsed) {
+        await checkRow(row);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not read file';
+      setFileError(`${file.name}: ${message}`);
+      setRows([]);
+      logger.error('Failed to parse import file', { fileName: file.name, message }, 'BulkImport');
+    }
+  };
+
+  const updateRow = (line: number, changes: Partial<PreviewRow>) => {
+    const current = rows.find(row => row.line === line);
+    if (!current) {
+      return;
+    }
+    const updated = { ...current, ...changes };
+    setRows(prev => prev.map(row => row.line === line ? updated : row));
+    if (rowKey(updated) !== rowKey(current)) {
+      checkRow(updated);
+    }
+  };
+
+  // Custom shortcodes only have to be unique against stored links, so clashes within the file are caught here,
+  // compared the way the service compares them. Imported links all go on the default domain.
+  const { caseInsensitive } = settingsStore.get().shortcodes;
+  const shortcodeKey = (row: ImportRow) => `${DEFAULT_DOMAIN_ID}/${canonicalShortcode(row.customShortcode, caseInsensitive)}`;
+  const shortcodeCounts = new Map<string, number>();
+  rows.filter(row => !row.skip && row.customShortcode).forEach(row => {
+    shortcodeCounts.set(shortcodeKey(row), (shortcodeCounts.get(shortcodeKey(row)) ?? 0) + 1);
+  });
+
+  const getRowError = (row: PreviewRow): string | null | undefined => {
+    const check = checks[row.line];
+    if (!check || check.key !== rowKey(row)) {
+      return undefined;
+    }
+    if (check.error) {
+      return check.error;
+    }
+    if ((shortcodeCounts.get(shortcodeKey(row)) ?? 0) > 1) {
+      return 'Custom shortcode is used by another row in this file';
+    }
+    return null;
+  };
+
+  const activeRows = rows.filter(row => !row.skip);
+  const validRows = activeRows.filter(row => getRowError(row) === null);
+  const pendingCount = activeRows.filter(row => getRowError(row) === undefined).length;
+
+  const handleImport = async () => {
+    const toCreate = validRows;
+    logger.info('Starting bulk import', { fileName, rowCount: toCreate.length }, 'BulkImport');
+    setProgress(0);
+
+    const importResults: ImportResult[] = [];
+    for (const row of rows) {
+      const base = { line: row.line, originalUrl: row.originalUrl, customShortcode: row.customShortcode };
+      if (!toCreate.includes(row)) {
+        importResults.push({ ...base, status: 'skipped', error: row.skip ? 'Skipped' : getRowError(row) ?? undefined });
+        continue;
+      }
+      try {
+        const url = await urlShortenerService.createShortenedURL(
+          row.originalUrl,
+          toValidity(row),
+          row.customShortcode || undefined,
+          { tags: parseTagInput(row.tags) }
+        );
+        importResults.push({ ...base, status: 'created', shortUrl: url.shortUrl });
+      } catch (error) {
+        importResults.push({ ...base, status: 'failed', error: error instanceof Error ? error.message : 'Failed to create' });
+      }
+      setProgress(prev => (prev ?? 0) + 1);
+    }
+
+    setResults(importResults);
+    setRows([]);
+    setChecks({});
+    setProgress(null);
+    logger.info('Bulk import finished', {
+      fileName,
+      created: importResults.filter(result => result.status === 'created').length,
+      failed: importResults.filter(result => result.status === 'failed').length
+    }, 'BulkImport');
+  };
+
+  const downloadResults = () => {
+    const blob = new Blob([formatImportResults(results)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `url-shortener-import-${format(new Date(), 'yyyy-MM-dd-HHmm')}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const createdCount = results.filter(result => result.status === 'created').length;
+  const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Import Links</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Upload a CSV or JSON file with the columns <code>url</code>, <code>validity</code> (minutes),{' '}
+          <code>shortcode</code> and <code>tags</code>. Only <code>url</code> is required.
+        </p>
+      </div>
+
+      <label className="flex items-center justify-center space-x-2 px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-400 hover:text-blue-600 cursor-pointer transition-colors">
+        <Upload className="w-5 h-5" />
+        <span>{fileName && rows.length > 0 ? `Replace ${fileName}` : 'Choose a .csv or .json file'}</span>
+        <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+      </label>
+
+      {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-600">
+              {validRows.length} of {rows.length} rows ready
+              {pendingCount > 0 && `, checking ${pendingCount}...`}
+              {activeRows.length - validRows.length - pendingCount > 0 &&
+                `, ${activeRows.length - validRows.length - pendingCount} need fixing or skipping`}
+            </p>
+            <button
+              onClick={handleImport}
+              disabled={validRows.length === 0 || pendingCount > 0 || progress !== null}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {progress !== null ? `Importing ${progress}/${validRows.length}...` : `Import ${validRows.length} Links`}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto max-h-[32rem] overflow-y-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Skip</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">URL</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Validity</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shortcode</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tags</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(row => {
+                  const error = getRowError(row);
+                  return (
+                    <tr key={row.line} className={row.skip ? 'opacity-50' : error ? 'bg-red-50' : ''}>
+                      <td className="px-3 py-2 text-sm text-gray-500">{row.line}</td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={row.skip}
+                          onChange={(e) => updateRow(row.line, { skip: e.target.checked })}
+                          className="rounded border-gray-300"
+                        />
+                      </td>
+                      <td className="px-3 py-2 min-w-[16rem]">
+                        <input
+                          type="text"
+                          value={row.originalUrl}
+                          onChange={(e) => updateRow(row.line, { originalUrl: e.target.value })}
+                          className={inputClassName}
+                        />
+                      </td>
+                      <td className="px-3 py-2 w-24">
+                        <input
+                          type="text"
+                          value={row.validityMinutes}
+                          placeholder={String(DEFAULT_VALIDITY_MINUTES)}
+                          onChange={(e) => updateRow(row.line, { validityMinutes: e.target.value })}
+                          className={inputClassName}
+                        />
+                      </td>
+                      <td className="px-3 py-2 w-36">
+                        <input
+                          type="text"
+                          value={row.customShortcode}
+                          onChange={(e) => updateRow(row.line, { customShortcode: e.target.value })}
+                          className={inputClassName}
+                        />
+                      </td>
+                      <td className="px-3 py-2 w-40">
+                        <input
+                          type="text"
+                          value={row.tags}
+                          onChange={(e) => updateRow(row.line, { tags: e.target.value })}
+                          className={inputClassName}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-sm">
+                        {row.skip ? (
+                          <span className="text-gray-500">Skipped</span>
+                        ) : error === undefined ? (
+                          <span className="text-gray-500">Checking...</span>
+                        ) : error ? (
+                          <span className="flex items-center space-x-1 text-red-600">
+                            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                            <span>{error}</span>
+                          </span>
+                        ) : (
+                          <CheckCircle className="w-4 h-4 text-green-600" />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {results.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-green-50 border border-green-200 rounded-md">
+          <p className="text-sm text-green-800">
+            Created {createdCount} of {results.length} links from {fileName}.
+          </p>
+          <button
+            onClick={downloadResults}
+            className="flex items-center space-x-2 px-3 py-1 text-sm bg-white border border-green-300 text-green-800 rounded-md hover:bg-green-100 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download Results</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkImport;
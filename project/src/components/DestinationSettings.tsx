@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { DestinationPolicy } from '../types';
+import { parseDomainList } from '../utils/destinationPolicy';
+import { settingsStore } from '../utils/settings';
+import { usesApiServer } from '../utils/backend';
+
+const toDrafts = (policy: DestinationPolicy) => ({
+  allowedSchemes: policy.allowedSchemes.join(', '),
+  allowedDomains: policy.allowedDomains.join('\n'),
+  blockedDomains: policy.blockedDomains.join('\n')
+});
+
+const DestinationSettings: React.FC = () => {
+  const [drafts, setDrafts] = useState(toDrafts(settingsStore.get().destinations));
+
+  useEffect(() => settingsStore.subscribe(settings => setDrafts(toDrafts(settings.destinations))), []);
+
+  const save = () => {
+    const schemes = drafts.allowedSchemes
+      .split(/[\s,]+/)
+      .map(scheme => scheme.trim().toLowerCase().replace(/:$/, ''))
+      .filter(Boolean);
+    settingsStore.update({
+      destinations: {
+        // An empty list would reject every link
+        allowedSchemes: schemes.length > 0 ? [...new Set(schemes)] : settingsStore.get().destinations.allowedSchemes,
+        allowedDomains: parseDomainList(drafts.allowedDomains),
+        blockedDomains: parseDomainList(drafts.blockedDomains)
+      }
+    });
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="flex items-center space-x-2 text-2xl font-bold text-gray-900">
+        <ShieldCheck className="w-6 h-6" />
+        <span>Allowed Destinations</span>
+      </h2>
+
+      {usesApiServer ? (
+        <p className="text-sm text-gray-600">
+          Links are created on the API server, which uses its own destination rules.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            Which URLs links may point to. Links that would redirect back to one of your own short links in a loop are always refused.
+            Domains include their subdomains.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">URL schemes</label>
+            <input
+              type="text"
+              value={drafts.allowedSchemes}
+              onChange={(e) => setDrafts({ ...drafts, allowedSchemes: e.target.value })}
+              onBlur={save}
+              placeholder="http, https"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Only allow these domains</label>
+              <textarea
+                rows={4}
+                value={drafts.allowedDomains}
+                onChange={(e) => setDrafts({ ...drafts, allowedDomains: e.target.value })}
+                onBlur={save}
+                placeholder="Any domain"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Block these domains</label>
+              <textarea
+                rows={4}
+                value={drafts.blockedDomains}
+                onChange={(e) => setDrafts({ ...drafts, blockedDomains: e.target.value })}
+                onBlur={save}
+                placeholder="malware.example"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DestinationSettings;
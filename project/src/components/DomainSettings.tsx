@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Globe, Plus, Trash2 } from 'lucide-react';
+import { BrandedDomain } from '../types';
+import { findDomainListError, formatDomain, parseDomainPrefix } from '../utils/domains';
+import { settingsStore } from '../utils/settings';
+import { urlShortenerService, usesApiServer } from '../utils/backend';
+import { logger } from '../utils/logger';
+
+const DomainSettings: React.FC = () => {
+  const [branded, setBranded] = useState<BrandedDomain[]>(settingsStore.get().domains);
+  const [defaultDomain, setDefaultDomain] = useState<BrandedDomain | null>(null);
+  // The API server's domains, which can't be changed from here
+  const [serverDomains, setServerDomains] = useState<BrandedDomain[]>([]);
+  const [linkCounts, setLinkCounts] = useState<Record<string, number>>({});
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [newDomain, setNewDomain] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => settingsStore.subscribe(settings => setBranded(settings.domains)), []);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [domains, active, trashed] = await Promise.all([
+          urlShortenerService.getDomains(),
+          urlShortenerService.getAllURLs(),
+          urlShortenerService.getTrashedURLs()
+        ]);
+        setDefaultDomain(domains[0] ?? null);
+        setServerDomains(domains);
+        const counts: Record<string, number> = {};
+        // Trashed links still hold their shortcode on their domain
+        [...active, ...trashed].forEach(url => {
+          counts[url.domainId] = (counts[url.domainId] ?? 0) + 1;
+        });
+        setLinkCounts(counts);
+      } catch (loadError) {
+        logger.error('Failed to load branded domains', loadError, 'DomainSettings');
+      }
+    };
+    load();
+  }, [branded]);
+
+  const save = (domains: BrandedDomain[]): boolean => {
+    const problem = defaultDomain ? findDomainListError(domains, defaultDomain) : null;
+    if (problem) {
+      setError(problem);
+      return false;
+    }
+    setError('');
+    settingsStore.update({ domains });
+    return true;
+  };
+
+  const addDomain = () => {
+    const domain = parseDomainPrefix(newDomain, crypto.randomUUID());
+    if (!domain) {
+      setError(`"${newDomain}" isn't a valid domain`);
+      return;
+    }
+    if (save([...branded, domain])) {
+      setNewDomain('');
+    }
+  };
+
+  // Moving a domain to another host or path keeps its links, which follow it
+  const moveDomain = (id: string) => {
+    const draft = drafts[id];
+    if (draft === undefined) {
+      return;
+    }
+    const moved = parseDomainPrefix(draft, id);
+    if (!moved) {
+      setError(`"${draft}" isn't a valid domain`);
+      return;
+    }
+    if (save(branded.map(domain => domain.id === id ? moved : domain))) {
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    }
+  };
+
+  const inputClassName = 'flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="flex items-center space-x-2 text-2xl font-bold text-gray-900">
+        <Globe className="w-6 h-6" />
+        <span>Branded Domains</span>
+      </h2>
+
+      {usesApiServer ? (
+        <>
+          <p className="text-sm text-gray-600">
+            Links are created on the API server, which serves them on these domains (set with <code>BRANDED_DOMAINS</code>):
+          </p>
+          <ul className="text-sm font-mono text-gray-800 space-y-1">
+            {serverDomains.map(domain => <li key={domain.id}>{formatDomain(domain)}</li>)}
+          </ul>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            Domains and paths you point at this app, to pick from when creating a link. Each domain has its own shortcodes,
+            and short URLs follow a domain if you change its address here.
+          </p>
+
+          <ul className="space-y-2">
+            {defaultDomain && (
+              <li className="flex items-center space-x-2 text-sm">
+                <span className="flex-1 px-3 py-2 font-mono text-gray-800 bg-gray-50 rounded-md">{formatDomain(defaultDomain)}</span>
+                <span className="w-40 text-gray-500">Default · {linkCounts[defaultDomain.id] ?? 0} links</span>
+              </li>
+            )}
+            {branded.map(domain => {
+              const count = linkCounts[domain.id] ?? 0;
+              return (
+                <li key={domain.id} className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="text"
+                    value={drafts[domain.id] ?? formatDomain(domain)}
+                    onChange={(e) => setDrafts({ ...drafts, [domain.id]: e.target.value })}
+                    onBlur={() => moveDomain(domain.id)}
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <span className="w-32 text-gray-500">{count} links</span>
+                  <button
+                    type="button"
+                    onClick={() => save(branded.filter(d => d.id !== domain.id))}
+                    disabled={count > 0}
+                    title={count > 0 ? 'Domains with links (including trashed ones) can\'t be removed' : 'Remove domain'}
+                    className="p-2 text-gray-500 hover:text-red-600 disabled:opacity-40 disabled:hover:text-gray-500"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newDomain}
+              onChange={(e) => setNewDomain(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  addDomain();
+                }
+              }}
+              placeholder="go.example.com or https://example.link/s/"
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={addDomain}
+              disabled={!newDomain.trim()}
+              className="flex items-center space-x-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DomainSettings;
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { SearchX } from 'lucide-react';
+import { findNotFoundFallbackError } from '../utils/destinationPolicy';
+import { settingsStore } from '../utils/settings';
+import { urlShortenerService, usesApiServer } from '../utils/backend';
+import { logger } from '../utils/logger';
+
+const FallbackSettings: React.FC = () => {
+  const [draft, setDraft] = useState(settingsStore.get().notFoundFallbackUrl);
+  const [error, setError] = useState('');
+
+  useEffect(() => settingsStore.subscribe(settings => setDraft(settings.notFoundFallbackUrl)), []);
+
+  const save = async () => {
+    const notFoundFallbackUrl = draft.trim();
+    if (notFoundFallbackUrl === settingsStore.get().notFoundFallbackUrl) {
+      setError('');
+      return;
+    }
+    try {
+      const problem = notFoundFallbackUrl
+        ? findNotFoundFallbackError(notFoundFallbackUrl, settingsStore.get().destinations, await urlShortenerService.getDomains())
+        : null;
+      if (problem) {
+        setError(problem);
+        return;
+      }
+      setError('');
+      settingsStore.update({ notFoundFallbackUrl });
+    } catch (saveError) {
+      logger.error('Failed to save the fallback for missing links', saveError, 'FallbackSettings');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="flex items-center space-x-2 text-2xl font-bold text-gray-900">
+        <SearchX className="w-6 h-6" />
+        <span>Missing Links</span>
+      </h2>
+
+      {usesApiServer ? (
+        <p className="text-sm text-gray-600">
+          Links are served by the API server, which sends visitors of unknown shortcodes to its <code>NOT_FOUND_FALLBACK_URL</code>, if set.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            Where to send visitors whose shortcode doesn't exist, e.g. your homepage. Leave empty to show them a page explaining
+            that the link wasn't found. Expired links have their own fallback, set per link.
+          </p>
+
+          <input
+            type="url"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={save}
+            placeholder="https://example.com/"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FallbackSettings;
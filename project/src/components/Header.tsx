@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Link as LinkIcon, BarChart3, Activity } from 'lucide-react';
+import { Link as LinkIcon, BarChart3, Activity, Settings } from 'lucide-react';
 
 const Header: React.FC = () => {
   const location = useLocation();
@@ -8,7 +8,8 @@ const Header: React.FC = () => {
   const navItems = [
     { path: '/', label: 'URL Shortener', icon: LinkIcon },
     { path: '/statistics', label: 'Statistics', icon: BarChart3 },
-    { path: '/logs', label: 'Logs', icon: Activity }
+    { path: '/logs', label: 'Logs', icon: Activity },
+    { path: '/settings', label: 'Settings', icon: Settings }
   ];
 
   return (
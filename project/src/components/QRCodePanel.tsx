@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { ShortenedURL } from '../types';
+import { QRErrorCorrection, QR_ERROR_CORRECTION_LEVELS, encodeQR, qrToPng, qrToSvg } from '../utils/qrCode';
+import { QR_SOURCE, tagShortUrl } from '../utils/clickSource';
+import { logger } from '../utils/logger';
+
+interface QRCodePanelProps {
+  url: ShortenedURL;
+}
+
+const SIZES = [256, 512, 1024, 2048];
+
+const download = (blob: Blob, filename: string) => {
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(href);
+};
+
+const QRCodePanel: React.FC<QRCodePanelProps> = ({ url }) => {
+  const [errorCorrection, setErrorCorrection] = useState<QRErrorCorrection>('M');
+  const [size, setSize] = useState(512);
+
+  // Scans are tagged so their clicks are recorded with the "qr" source
+  const encodedUrl = tagShortUrl(url.shortUrl, QR_SOURCE);
+  const qr = useMemo(() => encodeQR(encodedUrl, errorCorrection), [encodedUrl, errorCorrection]);
+  const svg = qr ? qrToSvg(qr, size) : '';
+
+  const downloadSvg = () => {
+    download(new Blob([svg], { type: 'image/svg+xml' }), `qr-${url.shortCode}.svg`);
+    logger.info('QR code downloaded', { shortCode: url.shortCode, format: 'svg', errorCorrection, size }, 'QRCodePanel');
+  };
+
+  const downloadPng = async () => {
+    if (!qr) {
+      return;
+    }
+    try {
+      download(await qrToPng(qr, size), `qr-${url.shortCode}.png`);
+      logger.info('QR code downloaded', { shortCode: url.shortCode, format: 'png', errorCorrection, size }, 'QRCodePanel');
+    } catch (error) {
+      logger.error('Failed to render QR code PNG', error, 'QRCodePanel');
+    }
+  };
+
+  const selectClassName = 'px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500';
+  const buttonClassName = 'flex items-center space-x-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+      {qr ? (
+        <img
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+          alt={`QR code for ${url.shortUrl}`}
+          className="w-40 h-40 border border-gray-200 rounded-md"
+        />
+      ) : (
+        <p className="w-40 text-sm text-red-600">This link is too long to fit in a QR code.</p>
+      )}
+
+      <div className="space-y-3 text-sm">
+        <p className="text-gray-600">
+          Encodes <code className="text-blue-600 break-all">{encodedUrl}</code>, so scans show up with the source <code>{QR_SOURCE}</code>.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-gray-700">
+            <span>Error correction</span>
+            <select
+              value={errorCorrection}
+              onChange={(e) => setErrorCorrection(e.target.value as QRErrorCorrection)}
+              className={selectClassName}
+            >
+              {QR_ERROR_CORRECTION_LEVELS.map(level => (
+                <option key={level.value} value={level.value}>{level.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-2 text-gray-700">
+            <span>Size</span>
+            <select value={size} onChange={(e) => setSize(Number(e.target.value))} className={selectClassName}>
+              {SIZES.map(pixels => <option key={pixels} value={pixels}>{pixels} × {pixels} px</option>)}
+            </select>
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">Higher error correction still scans when part of the code is damaged or covered, at the cost of a denser code.</p>
+        <div className="flex items-center space-x-2">
+          <button type="button" onClick={downloadSvg} disabled={!qr} className={buttonClassName}>
+            <Download className="w-4 h-4" />
+            <span>SVG</span>
+          </button>
+          <button type="button" onClick={downloadPng} disabled={!qr} className={buttonClassName}>
+            <Download className="w-4 h-4" />
+            <span>PNG</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QRCodePanel;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { RedirectBehavior, RedirectMode } from '../types';
+import {
+  MAX_COUNTDOWN_SECONDS,
+  MAX_INTERSTITIAL_DESCRIPTION_LENGTH,
+  MAX_INTERSTITIAL_TITLE_LENGTH,
+  REDIRECT_MODES
+} from '../utils/redirectBehavior';
+
+interface RedirectBehaviorEditorProps {
+  behavior: RedirectBehavior;
+  onChange: (behavior: RedirectBehavior) => void;
+}
+
+const RedirectBehaviorEditor: React.FC<RedirectBehaviorEditorProps> = ({ behavior, onChange }) => {
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+            <Timer className="w-4 h-4" />
+            <span>Before Redirecting</span>
+          </label>
+          <select
+            value={behavior.mode}
+            onChange={(e) => onChange({ ...behavior, mode: e.target.value as RedirectMode })}
+            className={inputClassName}
+          >
+            {REDIRECT_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+          </select>
+        </div>
+
+        {behavior.mode === 'countdown' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Countdown (seconds)</label>
+            <input
+              type="number"
+              min="1"
+              max={MAX_COUNTDOWN_SECONDS}
+              value={behavior.countdownSeconds}
+              onChange={(e) => onChange({ ...behavior, countdownSeconds: Number(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      {behavior.mode !== 'instant' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Page title (optional)</span>
+            <input
+              type="text"
+              value={behavior.title ?? ''}
+              onChange={(e) => onChange({ ...behavior, title: e.target.value })}
+              maxLength={MAX_INTERSTITIAL_TITLE_LENGTH}
+              placeholder={behavior.mode === 'countdown' ? 'Redirecting...' : 'Leaving this site'}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Page description (optional)</span>
+            <textarea
+              value={behavior.description ?? ''}
+              onChange={(e) => onChange({ ...behavior, description: e.target.value })}
+              maxLength={MAX_INTERSTITIAL_DESCRIPTION_LENGTH}
+              rows={2}
+              placeholder="Shown above the destination, e.g. why visitors are being sent there"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedirectBehaviorEditor;
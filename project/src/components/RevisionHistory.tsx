@@ -0,0 +1,109 @@
+import React from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { RoutingRule, SplitVariant, URLRevision, URLRevisionChange } from '../types';
+import { describeRule } from '../utils/routing';
+import { variantLabel } from '../utils/splitTest';
+import { formatUTM } from '../utils/utm';
+import { formatRedirectBehavior } from '../utils/redirectBehavior';
+
+interface RevisionHistoryProps {
+  revisions: URLRevision[];
+  onRevert: (revisionId: string) => void;
+}
+
+const fieldLabels: Record<URLRevisionChange['field'], string> = {
+  originalUrl: 'Destination',
+  expiresAt: 'Expiry',
+  activatesAt: 'Goes live',
+  shortCode: 'Shortcode',
+  tags: 'Tags',
+  folder: 'Folder',
+  maxClicks: 'Click limit',
+  routingRules: 'Routing rules',
+  variants: 'Split variants',
+  utm: 'UTM parameters',
+  passthrough: 'Query passthrough',
+  redirectBehavior: 'Redirect page',
+  fallbackUrl: 'Fallback after expiry'
+};
+
+const emptyLabels: Partial<Record<URLRevisionChange['field'], string>> = {
+  maxClicks: 'unlimited',
+  expiresAt: 'never',
+  activatesAt: 'immediately'
+};
+
+const formatValue = (change: URLRevisionChange, value: string) => {
+  if (value === '') {
+    return emptyLabels[change.field] ?? '(none)';
+  }
+  if (change.field === 'routingRules') {
+    const rules: RoutingRule[] = JSON.parse(value);
+    return rules.length > 0 ? rules.map(rule => `${describeRule(rule)} → ${rule.destination}`).join('; ') : '(none)';
+  }
+  if (change.field === 'utm') {
+    return formatUTM(JSON.parse(value));
+  }
+  if (change.field === 'redirectBehavior') {
+    return formatRedirectBehavior(JSON.parse(value));
+  }
+  if (change.field === 'passthrough') {
+    return value === 'true' ? 'on' : 'off';
+  }
+  if (change.field === 'variants') {
+    const variants: SplitVariant[] = JSON.parse(value);
+    return variants.length > 0
+      ? variants.map(variant => `${variantLabel(variants, variant)} (${variant.weight}) → ${variant.destination}`).join('; ')
+      : '(none)';
+  }
+  return change.field === 'expiresAt' || change.field === 'activatesAt' ? format(new Date(value), 'MMM dd, yyyy HH:mm') : value;
+};
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions, onRevert }) => {
+  return (
+    <div>
+      <h4 className="flex items-center space-x-2 text-lg font-medium text-gray-900 mb-4">
+        <History className="w-5 h-5" />
+        <span>Revision History ({revisions.length})</span>
+      </h4>
+
+      {revisions.length > 0 ? (
+        <ul className="space-y-3">
+          {[...revisions].reverse().map((revision) => (
+            <li key={revision.id} className="border border-gray-200 rounded-md p-3">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium text-gray-900">{revision.changedBy}</span>
+                  {' · '}
+                  {format(revision.timestamp, 'MMM dd, yyyy HH:mm:ss')}
+                  {revision.revertOf && <span className="ml-2 text-xs text-gray-500">(rollback)</span>}
+                </p>
+                <button
+                  onClick={() => onRevert(revision.id)}
+                  className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-900"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Roll back</span>
+                </button>
+              </div>
+              <ul className="space-y-1 text-sm">
+                {revision.changes.map((change) => (
+                  <li key={change.field} className="break-all">
+                    <span className="font-medium text-gray-700">{fieldLabels[change.field]}:</span>{' '}
+                    <span className="text-red-600 line-through">{formatValue(change, change.from)}</span>{' → '}
+                    <span className="text-green-700">{formatValue(change, change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500 text-center py-4">No changes since the link was created</p>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Plus, X, ArrowUp, ArrowDown, Route } from 'lucide-react';
+import { RoutingPlatform, RoutingRule } from '../types';
+import { ROUTING_PLATFORMS } from '../utils/routing';
+
+interface RoutingRulesEditorProps {
+  rules: RoutingRule[];
+  onChange: (rules: RoutingRule[]) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+const RoutingRulesEditor: React.FC<RoutingRulesEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (index: number, changes: Partial<RoutingRule>) => {
+    onChange(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const moved = [...rules];
+    [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+    onChange(moved);
+  };
+
+  const togglePlatform = (index: number, platform: RoutingPlatform, checked: boolean) => {
+    const platforms = rules[index].platforms ?? [];
+    updateRule(index, { platforms: checked ? [...platforms, platform] : platforms.filter(p => p !== platform) });
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: crypto.randomUUID(), destination: '', platforms: [] }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <Route className="w-4 h-4" />
+        <span>Routing Rules (optional)</span>
+      </label>
+      <p className="text-xs text-gray-500">
+        Checked from top to bottom; the first rule that matches picks the destination. Everyone else goes to the main URL.
+      </p>
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="border border-gray-200 rounded-md p-3 space-y-3 bg-gray-50">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">Rule {index + 1}</span>
+            <div className="flex items-center space-x-1">
+              <button
+                type="button"
+                onClick={() => moveRule(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveRule(index, 1)}
+                disabled={index === rules.length - 1}
+                className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                className="p-1 text-red-500 hover:text-red-700"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {ROUTING_PLATFORMS.map(({ value, label }) => (
+              <label key={value} className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rule.platforms?.includes(value) ?? false}
+                  onChange={(e) => togglePlatform(index, value, e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={rule.languages?.join(', ') ?? ''}
+              onChange={(e) => updateRule(index, { languages: e.target.value.split(',').map(language => language.trimStart()) })}
+              placeholder="Languages, e.g. en, pt-BR"
+              className={inputClassName}
+            />
+            <div className="flex items-center space-x-2 md:col-span-2">
+              <input
+                type="time"
+                value={rule.timeRange?.from ?? ''}
+                onChange={(e) => updateRule(index, {
+                  timeRange: e.target.value || rule.timeRange?.to ? { from: e.target.value, to: rule.timeRange?.to ?? '' } : undefined
+                })}
+                className={inputClassName}
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                value={rule.timeRange?.to ?? ''}
+                onChange={(e) => updateRule(index, {
+                  timeRange: e.target.value || rule.timeRange?.from ? { from: rule.timeRange?.from ?? '', to: e.target.value } : undefined
+                })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <input
+            type="url"
+            value={rule.destination}
+            onChange={(e) => updateRule(index, { destination: e.target.value })}
+            placeholder="https://apps.apple.com/app/..."
+            className={inputClassName}
+          />
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addRule}
+        className="flex items-center space-x-2 px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add Rule</span>
+      </button>
+    </div>
+  );
+};
+
+export default RoutingRulesEditor;
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Hash } from 'lucide-react';
+import { ShortcodeAlphabet, ShortcodeOptions, ShortcodeStrategy } from '../types';
+import {
+  MIN_SHORTCODE_LENGTH,
+  SHORTCODE_ALPHABETS,
+  SHORTCODE_ALPHABET_LABELS,
+  SHORTCODE_STRATEGIES,
+  encodeSequence,
+  generateShortcode
+} from '../utils/shortcodes';
+import { MAX_SHORTCODE_LENGTH } from '../utils/shortcodePolicy';
+import { settingsStore } from '../utils/settings';
+import { usesApiServer } from '../utils/backend';
+
+const LENGTH_OPTIONS = Array.from({ length: MAX_SHORTCODE_LENGTH - MIN_SHORTCODE_LENGTH + 1 }, (_, i) => MIN_SHORTCODE_LENGTH + i);
+
+const ShortcodeSettings: React.FC = () => {
+  const [options, setOptions] = useState<ShortcodeOptions>(settingsStore.get().shortcodes);
+
+  useEffect(() => settingsStore.subscribe(settings => setOptions(settings.shortcodes)), []);
+
+  const update = (changes: Partial<ShortcodeOptions>) => {
+    settingsStore.update({ shortcodes: { ...options, ...changes } });
+  };
+
+  const alphabet = SHORTCODE_ALPHABETS[options.alphabet];
+  const example = options.strategy === 'sequential'
+    ? `${encodeSequence(0, alphabet, options.length)}, ${encodeSequence(1, alphabet, options.length)}, ${encodeSequence(2, alphabet, options.length)}…`
+    : generateShortcode({ ...options, strategy: 'hash' }, { originalUrl: 'https://example.com', taken: new Set(), sequence: 0 })?.shortCode;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="flex items-center space-x-2 text-2xl font-bold text-gray-900">
+        <Hash className="w-6 h-6" />
+        <span>Generated Shortcodes</span>
+      </h2>
+
+      {usesApiServer ? (
+        <p className="text-sm text-gray-600">
+          Links are created on the API server, which uses its own shortcode settings.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            How shortcodes are made when you don't choose one. Codes get longer by themselves once the shorter ones run out.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Strategy</label>
+              <select
+                value={options.strategy}
+                onChange={(e) => update({ strategy: e.target.value as ShortcodeStrategy })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {SHORTCODE_STRATEGIES.map(strategy => (
+                  <option key={strategy.value} value={strategy.value}>{strategy.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Length</label>
+              <select
+                value={options.length}
+                onChange={(e) => update({ length: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {LENGTH_OPTIONS.map(length => (
+                  <option key={length} value={length}>{length} characters</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Characters</label>
+              <select
+                value={options.alphabet}
+                onChange={(e) => update({ alphabet: e.target.value as ShortcodeAlphabet })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.keys(SHORTCODE_ALPHABETS) as ShortcodeAlphabet[]).map(key => (
+                  <option key={key} value={key}>{SHORTCODE_ALPHABET_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.caseInsensitive}
+              onChange={(e) => update({ caseInsensitive: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Ignore case, so <code>Promo</code> and <code>promo</code> are the same link</span>
+          </label>
+
+          <p className="text-sm text-gray-500">
+            {SHORTCODE_STRATEGIES.find(strategy => strategy.value === options.strategy)?.description}.
+            {' '}For example: <span className="font-mono text-gray-700">{example}</span>
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ShortcodeSettings;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Tag } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ShortenedURL } from '../types';
+
+interface TagSummaryProps {
+  urls: ShortenedURL[];
+  onSelectTag: (tag: string) => void;
+}
+
+interface TagStats {
+  tag: string;
+  clicks: number;
+  active: number;
+  expired: number;
+}
+
+const getTagStats = (urls: ShortenedURL[]): TagStats[] => {
+  const byTag = new Map<string, TagStats>();
+
+  urls.forEach(url => {
+    url.tags.forEach(tag => {
+      const stats = byTag.get(tag) ?? { tag, clicks: 0, active: 0, expired: 0 };
+      stats.clicks += url.clicks.length;
+      if (url.isExpired) {
+        stats.expired += 1;
+      } else {
+        stats.active += 1;
+      }
+      byTag.set(tag, stats);
+    });
+  });
+
+  return [...byTag.values()].sort((a, b) => b.clicks - a.clicks);
+};
+
+const TagSummary: React.FC<TagSummaryProps> = ({ urls, onSelectTag }) => {
+  const tagStats = getTagStats(urls);
+
+  if (tagStats.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900">
+        <Tag className="w-5 h-5" />
+        <span>By Tag</span>
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {tagStats.map(stats => (
+          <button
+            key={stats.tag}
+            onClick={() => onSelectTag(stats.tag)}
+            className="text-left border border-gray-200 rounded-lg p-4 hover:border-blue-300 hover:bg-blue-50 transition-colors"
+          >
+            <p className="text-sm font-medium text-blue-700">#{stats.tag}</p>
+            <p className="text-2xl font-bold text-gray-900">{stats.clicks} clicks</p>
+            <p className="text-sm text-gray-600">
+              <span className="text-green-600">{stats.active} active</span>
+              {' · '}
+              <span className="text-red-600">{stats.expired} expired</span>
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={tagStats.slice(0, 10)}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="tag" />
+          <YAxis />
+          <Tooltip />
+          <Legend />
+          <Bar dataKey="clicks" name="Clicks" fill="#3B82F6" />
+          <Bar dataKey="active" name="Active" stackId="status" fill="#10B981" />
+          <Bar dataKey="expired" name="Expired" stackId="status" fill="#EF4444" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default TagSummary;
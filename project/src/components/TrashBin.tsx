@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import { ShortenedURL } from '../types';
+
+interface TrashBinProps {
+  urls: ShortenedURL[];
+  /** Omitted when retention is configured elsewhere (e.g. on the API server). */
+  retentionDays?: number;
+  onRetentionChange?: (days: number) => void;
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void;
+}
+
+const RETENTION_OPTIONS = [1, 7, 30, 90, 365];
+
+const TrashBin: React.FC<TrashBinProps> = ({ urls, retentionDays, onRetentionChange, onRestore, onPurge }) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const visibleSelection = urls.filter(url => selectedIds.has(url.id)).map(url => url.id);
+  const allSelected = urls.length > 0 && visibleSelection.length === urls.length;
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(urls.map(url => url.id)));
+  };
+
+  const runBulk = (action: (ids: string[]) => void) => {
+    action(visibleSelection);
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <div>
+      <div className="px-6 py-3 flex flex-wrap items-center justify-between gap-3 bg-gray-50 border-b border-gray-200">
+        <p className="text-sm text-gray-600">
+          {retentionDays !== undefined
+            ? `Deleted links are kept for ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'} and their shortcodes stay reserved.`
+            : 'Deleted links are kept for a limited time and their shortcodes stay reserved.'}
+        </p>
+        <div className="flex items-center space-x-3">
+          {retentionDays !== undefined && onRetentionChange && (
+            <select
+              value={retentionDays}
+              onChange={(e) => onRetentionChange(Number(e.target.value))}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              {RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>Keep {days} {days === 1 ? 'day' : 'days'}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => runBulk(onRestore)}
+            disabled={visibleSelection.length === 0}
+            className="flex items-center space-x-1 px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Restore ({visibleSelection.length})</span>
+          </button>
+          <button
+            onClick={() => runBulk(onPurge)}
+            disabled={visibleSelection.length === 0}
+            className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-100 text-red-700 rounded-md hover:bg-red-200 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Delete Permanently ({visibleSelection.length})</span>
+          </button>
+        </div>
+      </div>
+
+      {urls.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">Trash is empty</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} className="rounded border-gray-300" />
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  URL
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Short Code
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Clicks
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Deleted
+                </th>
+                {retentionDays !== undefined && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Purged On
+                  </th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {urls.map((url) => (
+                <tr key={url.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(url.id)}
+                      onChange={() => toggle(url.id)}
+                      className="rounded border-gray-300"
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900 max-w-xs truncate">{url.originalUrl}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <code className="text-sm font-mono text-gray-500">{url.shortCode}</code>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {url.clicks.length}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {url.deletedAt && format(url.deletedAt, 'MMM dd, yyyy HH:mm')}
+                  </td>
+                  {retentionDays !== undefined && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {url.deletedAt && format(addDays(url.deletedAt, retentionDays), 'MMM dd, yyyy')}
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex items-center space-x-3">
+                      <button onClick={() => onRestore([url.id])} className="text-blue-600 hover:text-blue-900">
+                        Restore
+                      </button>
+                      <button onClick={() => onPurge([url.id])} className="text-red-600 hover:text-red-900">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashBin;
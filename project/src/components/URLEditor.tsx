@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { Save, Link, Clock, Code, User, Tag, Folder, MousePointerClick, Ban, CalendarClock, LifeBuoy } from 'lucide-react';
+import { ShortenedURL, URLUpdate, UTMParams } from '../types';
+import RoutingRulesEditor from './RoutingRulesEditor';
+import VariantsEditor from './VariantsEditor';
+import UTMBuilder from './UTMBuilder';
+import RedirectBehaviorEditor from './RedirectBehaviorEditor';
+import { logger } from '../utils/logger';
+import { toDateTimeInput } from '../utils/expiry';
+import { formatTags, parseTagInput } from '../utils/tags';
+import { normalizeUTM } from '../utils/utm';
+import { findShortcodeError } from '../utils/shortcodePolicy';
+import { findRedirectBehaviorError, normalizeRedirectBehavior } from '../utils/redirectBehavior';
+
+interface URLEditorProps {
+  url: ShortenedURL;
+  editorName: string;
+  onEditorNameChange: (name: string) => void;
+  onSave: (update: URLUpdate) => Promise<void>;
+}
+
+const URLEditor: React.FC<URLEditorProps> = ({ url, editorName, onEditorNameChange, onSave }) => {
+  const [originalUrl, setOriginalUrl] = useState(url.originalUrl);
+  const [expiresAt, setExpiresAt] = useState(toDateTimeInput(url.expiresAt));
+  const [neverExpires, setNeverExpires] = useState(url.expiresAt === null);
+  const [activatesAt, setActivatesAt] = useState(toDateTimeInput(url.activatesAt));
+  const [shortCode, setShortCode] = useState(url.shortCode);
+  const [tags, setTags] = useState(formatTags(url.tags));
+  const [folder, setFolder] = useState(url.folder ?? '');
+  const [maxClicks, setMaxClicks] = useState(url.maxClicks?.toString() ?? '');
+  const [routingRules, setRoutingRules] = useState(url.routingRules);
+  const [variants, setVariants] = useState(url.variants);
+  const [utm, setUtm] = useState<UTMParams>(url.utm ?? {});
+  const [passthrough, setPassthrough] = useState(url.passthrough);
+  const [redirectBehavior, setRedirectBehavior] = useState(url.redirectBehavior);
+  const [fallbackUrl, setFallbackUrl] = useState(url.fallbackUrl ?? '');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const update: URLUpdate = {};
+    if (originalUrl !== url.originalUrl) {
+      update.originalUrl = originalUrl.trim();
+    }
+    if (neverExpires !== (url.expiresAt === null) || (!neverExpires && expiresAt !== toDateTimeInput(url.expiresAt))) {
+      update.expiresAt = neverExpires ? null : new Date(expiresAt);
+    }
+    if (activatesAt !== toDateTimeInput(url.activatesAt)) {
+      update.activatesAt = activatesAt ? new Date(activatesAt) : null;
+    }
+    if (shortCode !== url.shortCode) {
+      update.shortCode = shortCode.trim();
+      const problem = findShortcodeError(update.shortCode);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+    }
+    if (formatTags(parseTagInput(tags)) !== formatTags(url.tags)) {
+      update.tags = parseTagInput(tags);
+    }
+    if (folder.trim() !== (url.folder ?? '')) {
+      update.folder = folder;
+    }
+    if (maxClicks.trim() !== (url.maxClicks?.toString() ?? '')) {
+      update.maxClicks = maxClicks.trim() === '' ? null : Number(maxClicks);
+    }
+    if (routingRules !== url.routingRules) {
+      update.routingRules = routingRules;
+    }
+    if (variants !== url.variants) {
+      update.variants = variants;
+    }
+    if (JSON.stringify(normalizeUTM(utm) ?? null) !== JSON.stringify(url.utm ?? null)) {
+      update.utm = normalizeUTM(utm) ?? null;
+    }
+    if (passthrough !== url.passthrough) {
+      update.passthrough = passthrough;
+    }
+    if (fallbackUrl.trim() !== (url.fallbackUrl ?? '')) {
+      update.fallbackUrl = fallbackUrl.trim() || null;
+    }
+    const behavior = normalizeRedirectBehavior(redirectBehavior);
+    if (JSON.stringify(behavior) !== JSON.stringify(url.redirectBehavior)) {
+      const problem = findRedirectBehaviorError(behavior);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+      update.redirectBehavior = behavior;
+    }
+
+    if (Object.keys(update).length === 0) {
+      setError('Nothing to save');
+      return;
+    }
+
+    await save(update);
+  };
+
+  const handleExpireNow = async () => {
+    if (!window.confirm('Expire this link now? Visitors will see that it was deactivated.')) {
+      return;
+    }
+    setError('');
+    await save({ expiresAt: new Date() });
+  };
+
+  const save = async (update: URLUpdate) => {
+    setIsSaving(true);
+    try {
+      await onSave(update);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save changes';
+      setError(message);
+      logger.warn('URL edit rejected', { id: url.id, message }, 'URLEditor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <h4 className="text-lg font-medium text-gray-900">Edit Link</h4>
+
+      <div>
+        <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+          <Link className="w-4 h-4" />
+          <span>Destination URL</span>
+        </label>
+        <input type="url" value={originalUrl} onChange={(e) => setOriginalUrl(e.target.value)} className={inputClassName} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+            <Clock className="w-4 h-4" />
+            <span>Expires</span>
+          </label>
+          <input
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            disabled={neverExpires}
+            className={`${inputClassName} disabled:bg-gray-100`}
+          />
+          <label className="flex items-center space-x-2 mt-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={neverExpires}
+              onChange={(e) => setNeverExpires(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Never expires</span>
+          </label>
+        </div>
+
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+            <CalendarClock className="w-4 h-4" />
+            <span>Goes Live</span>
+          </label>
+          <input type="datetime-local" value={activatesAt} onChange={(e) => setActivatesAt(e.target.value)} className={inputClassName} />
+          <p className="mt-1 text-xs text-gray-500">Leave empty to keep it live now</p>
+        </div>
+
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+            <Code className="w-4 h-4" />
+            <span>Shortcode</span>
+          </label>
+          <input type="text" value={shortCode} onChange={(e) => setShortCode(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+            <Tag className="w-4 h-4" />
+            <span>Tags</span>
+          </label>
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="newsletter, q3"
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+            <Folder className="w-4 h-4" />
+            <span>Folder / Campaign</span>
+          </label>
+          <input type="text" value={folder} onChange={(e) => setFolder(e.target.value)} className={inputClassName} />
+        </div>
+
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+            <MousePointerClick className="w-4 h-4" />
+            <span>Click Limit</span>
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={maxClicks}
+            onChange={(e) => setMaxClicks(e.target.value)}
+            placeholder="Unlimited"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+          <LifeBuoy className="w-4 h-4" />
+          <span>After Expiry, Send Visitors To</span>
+        </label>
+        <input
+          type="url"
+          value={fallbackUrl}
+          onChange={(e) => setFallbackUrl(e.target.value)}
+          placeholder="Leave empty to tell visitors the link has expired"
+          className={inputClassName}
+        />
+      </div>
+
+      <UTMBuilder
+        utm={utm}
+        onChange={setUtm}
+        passthrough={passthrough}
+        onPassthroughChange={setPassthrough}
+        destination={originalUrl}
+      />
+
+      <RedirectBehaviorEditor behavior={redirectBehavior} onChange={setRedirectBehavior} />
+
+      <RoutingRulesEditor rules={routingRules} onChange={setRoutingRules} />
+
+      <VariantsEditor variants={variants} onChange={setVariants} defaultDestination={originalUrl} />
+
+      <div className="md:w-1/3">
+        <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+          <User className="w-4 h-4" />
+          <span>Your Name</span>
+        </label>
+        <input
+          type="text"
+          value={editorName}
+          onChange={(e) => onEditorNameChange(e.target.value)}
+          placeholder="anonymous"
+          className={inputClassName}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        {!url.isExpired && (
+          <button
+            type="button"
+            onClick={handleExpireNow}
+            disabled={isSaving}
+            className="flex items-center space-x-2 px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            <Ban className="w-4 h-4" />
+            <span>Expire Now</span>
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Save Changes'}</span>
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default URLEditor;
@@ -1,22 +1,132 @@
-import React, { useState } from 'react';
-import { Plus, X, Link, Clock, Code } from 'lucide-react';
-import { URLFormData } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Plus, X, Link, Clock, Code, CornerUpRight, Tag, Folder, Lock, MousePointerClick, CalendarClock, CheckCircle, AlertCircle, Copy, Globe, LifeBuoy } from 'lucide-react';
+import { BrandedDomain, DuplicateAction, ExpiryMode, RedirectStatusCode, ShortcodeAvailability, ShortenedURL, URLFormData, ValidityUnit } from '../types';
+import RoutingRulesEditor from './RoutingRulesEditor';
+import VariantsEditor from './VariantsEditor';
+import UTMBuilder from './UTMBuilder';
+import RedirectBehaviorEditor from './RedirectBehaviorEditor';
 import { logger } from '../utils/logger';
+import { formatExpiry, parseDateTimeInput } from '../utils/expiry';
+import { findShortcodeError } from '../utils/shortcodePolicy';
+import { urlShortenerService } from '../utils/backend';
+import { DEFAULT_DOMAIN_ID, formatDomain } from '../utils/domains';
+import { DEFAULT_REDIRECT_BEHAVIOR, findRedirectBehaviorError, normalizeRedirectBehavior } from '../utils/redirectBehavior';
+import { findDuplicateDifferences } from '../utils/duplicates';
+import { toCreateOptions } from '../utils/urlForm';
 
 interface URLFormProps {
   onSubmit: (urls: URLFormData[]) => void;
   maxUrls?: number;
 }
 
+const createEmptyURL = (): URLFormData => ({
+  originalUrl: '',
+  expiryMode: 'duration',
+  validityAmount: 30,
+  validityUnit: 'minutes',
+  expiresAt: '',
+  activatesAt: '',
+  customShortcode: '',
+  redirectType: 302,
+  redirectBehavior: DEFAULT_REDIRECT_BEHAVIOR,
+  tags: '',
+  folder: '',
+  password: '',
+  maxClicks: 0,
+  routingRules: [],
+  variants: [],
+  utm: {},
+  passthrough: false,
+  stripTracking: false,
+  onDuplicate: 'create',
+  domainId: DEFAULT_DOMAIN_ID,
+  fallbackUrl: ''
+});
+
+const DUPLICATE_CHOICES: { value: DuplicateAction; label: string }[] = [
+  { value: 'create', label: 'Create a new link anyway' },
+  { value: 'reuse', label: 'Use the existing link' },
+  { value: 'extend', label: 'Use it and extend its expiry' }
+];
+
+// Changing any of these can turn up a different existing link, or none
+const DUPLICATE_KEY_FIELDS: (keyof URLFormData)[] = ['originalUrl', 'stripTracking', 'domainId', 'customShortcode'];
+
+const AVAILABILITY_CHECK_DELAY_MS = 400;
+
 const URLForm: React.FC<URLFormProps> = ({ onSubmit, maxUrls = 5 }) => {
-  const [urls, setUrls] = useState<URLFormData[]>([
-    { originalUrl: '', validityMinutes: 30, customShortcode: '' }
-  ]);
+  const [urls, setUrls] = useState<URLFormData[]>([createEmptyURL()]);
   const [errors, setErrors] = useState<string[]>([]);
+  const [availability, setAvailability] = useState<(ShortcodeAvailability | null)[]>([]);
+  const [destinationErrors, setDestinationErrors] = useState<(string | null)[]>([]);
+  const [duplicates, setDuplicates] = useState<(ShortenedURL | null)[]>([]);
+  const [checkingShortcodes, setCheckingShortcodes] = useState(false);
+  const [domains, setDomains] = useState<BrandedDomain[]>([]);
+
+  useEffect(() => {
+    urlShortenerService.getDomains()
+      .then(setDomains)
+      .catch(error => logger.warn('Failed to load branded domains', error instanceof Error ? error.message : error, 'URLForm'));
+  }, []);
+
+  // Re-check only when a shortcode or destination changes, not on every keystroke elsewhere
+  const checkKey = JSON.stringify(urls.map(url => [url.customShortcode.trim(), url.originalUrl.trim(), url.stripTracking, url.domainId]));
+
+  useEffect(() => {
+    const rows = JSON.parse(checkKey) as [string, string, boolean, string][];
+    if (!rows.some(([shortCode, originalUrl]) => shortCode || originalUrl)) {
+      setAvailability([]);
+      setDestinationErrors([]);
+      setDuplicates([]);
+      setCheckingShortcodes(false);
+      return;
+    }
+
+    let cancelled = false;
+    setCheckingShortcodes(true);
+    const timer = setTimeout(async () => {
+      try {
+        // A code counts as taken by the batch when an earlier row on the same domain already uses it
+        const [shortcodeResults, destinationResults, duplicateResults] = await Promise.all([
+          Promise.all(rows.map(([shortCode, originalUrl, , domainId], index) => shortCode
+            ? urlShortenerService.checkShortcode(
+              shortCode,
+              originalUrl,
+              rows.slice(0, index).filter(earlier => earlier[3] === domainId).map(([earlier]) => earlier).filter(Boolean),
+              domainId
+            )
+            : null)),
+          Promise.all(rows.map(([shortCode, originalUrl, , domainId]) => originalUrl
+            ? urlShortenerService.checkDestination(originalUrl, shortCode || undefined, domainId)
+            : null)),
+          // A custom shortcode always makes a new link, so duplicates don't matter then
+          Promise.all(rows.map(([shortCode, originalUrl, stripTracking, domainId]) => originalUrl && !shortCode
+            ? urlShortenerService.findDuplicate(originalUrl, stripTracking, domainId)
+            : null))
+        ]);
+        if (!cancelled) {
+          setAvailability(shortcodeResults);
+          setDestinationErrors(destinationResults);
+          setDuplicates(duplicateResults);
+        }
+      } catch (error) {
+        logger.warn('Shortcode and destination check failed', error instanceof Error ? error.message : error, 'URLForm');
+      } finally {
+        if (!cancelled) {
+          setCheckingShortcodes(false);
+        }
+      }
+    }, AVAILABILITY_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [checkKey]);
 
   const addURL = () => {
     if (urls.length < maxUrls) {
-      setUrls([...urls, { originalUrl: '', validityMinutes: 30, customShortcode: '' }]);
+      setUrls([...urls, createEmptyURL()]);
       logger.info('Added new URL form', { currentCount: urls.length + 1 }, 'URLForm');
     }
   };
@@ -30,12 +140,54 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, maxUrls = 5 }) => {
     }
   };
 
-  const updateURL = (index: number, field: keyof URLFormData, value: string | number) => {
+  const updateURL = (index: number, field: keyof URLFormData, value: URLFormData[keyof URLFormData]) => {
     const newUrls = [...urls];
     newUrls[index] = { ...newUrls[index], [field]: value };
+    // Reusing a link is only ever chosen for the one that was shown
+    if (DUPLICATE_KEY_FIELDS.includes(field)) {
+      newUrls[index].onDuplicate = 'create';
+    }
     setUrls(newUrls);
   };
 
+  const renderDuplicate = (url: URLFormData, index: number) => {
+    const duplicate = duplicates[index];
+    if (!duplicate) {
+      return null;
+    }
+    const differences = findDuplicateDifferences(duplicate, toCreateOptions(url));
+    return (
+      <div className="mt-2 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm">
+        <p className="flex items-center space-x-2 text-yellow-800">
+          <Copy className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Already shortened as <span className="font-mono">{duplicate.shortUrl}</span> ({formatExpiry(duplicate)})
+            {differences.length === 0 && ' with the same settings'}
+          </span>
+        </p>
+        {differences.length > 0 && (
+          <p className="mt-1 text-yellow-800">
+            That link has a different {differences.join(', ')}. Using it keeps its own settings, so yours would be ignored.
+          </p>
+        )}
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+          {DUPLICATE_CHOICES.map(choice => (
+            <label key={choice.value} className="flex items-center space-x-1 text-gray-700">
+              <input
+                type="radio"
+                name={`duplicate-${index}`}
+                checked={url.onDuplicate === choice.value}
+                onChange={() => updateURL(index, 'onDuplicate', choice.value)}
+                className="border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>{choice.label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const validateURL = (url: string): boolean => {
     try {
       new URL(url);
@@ -45,8 +197,27 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, maxUrls = 5 }) => {
     }
   };
 
-  const validateShortcode = (shortcode: string): boolean => {
-    return shortcode === '' || /^[a-zA-Z0-9]{1,20}$/.test(shortcode);
+  const validateSchedule = (url: URLFormData): string => {
+    const activatesAt = parseDateTimeInput(url.activatesAt);
+    if (activatesAt && isNaN(activatesAt.getTime())) {
+      return 'Go-live time must be a valid date';
+    }
+    if (url.expiryMode === 'duration' && !(url.validityAmount > 0)) {
+      return 'Validity must be a positive number';
+    }
+    if (url.expiryMode === 'date') {
+      const expiresAt = parseDateTimeInput(url.expiresAt);
+      if (!expiresAt || isNaN(expiresAt.getTime())) {
+        return 'Pick an expiry date';
+      }
+      if (expiresAt <= new Date()) {
+        return 'Expiry must be in the future';
+      }
+      if (activatesAt && expiresAt <= activatesAt) {
+        return 'Expiry must be after the go-live time';
+      }
+    }
+    return '';
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -62,10 +233,22 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, maxUrls = 5 }) => {
         error = 'URL is required';
       } else if (!validateURL(url.originalUrl)) {
         error = 'Invalid URL format';
-      } else if (url.validityMinutes < 1 || url.validityMinutes > 10080) {
-        error = 'Validity must be between 1 and 10080 minutes';
-      } else if (!validateShortcode(url.customShortcode)) {
-        error = 'Shortcode must be alphanumeric and 1-20 characters';
+      } else if (!checkingShortcodes && destinationErrors[index]) {
+        error = destinationErrors[index] ?? '';
+      } else if (validateSchedule(url)) {
+        error = validateSchedule(url);
+      } else if (url.customShortcode && findShortcodeError(url.customShortcode)) {
+        error = findShortcodeError(url.customShortcode) ?? '';
+      } else if (url.customShortcode && !checkingShortcodes && availability[index]?.available === false) {
+        error = availability[index]?.reason ?? 'Shortcode is not available';
+      } else if (url.maxClicks < 0 || !Number.isInteger(url.maxClicks)) {
+        error = 'Click limit must be a whole number';
+      } else if (url.password !== '' && url.password.length < 4) {
+        error = 'Password must be at least 4 characters';
+      } else if (url.fallbackUrl.trim() && !validateURL(url.fallbackUrl.trim())) {
+        error = 'Invalid fallback URL format';
+      } else if (findRedirectBehaviorError(normalizeRedirectBehavior(url.redirectBehavior))) {
+        error = findRedirectBehaviorError(normalizeRedirectBehavior(url.redirectBehavior)) ?? '';
       }
 
       newErrors[index] = error;
@@ -120,27 +303,102 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, maxUrls = 5 }) => {
                 placeholder="https://example.com/very-long-url"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
               />
-              {errors[index] && (
+              {errors[index] ? (
                 <p className="mt-1 text-sm text-red-600">{errors[index]}</p>
+              ) : !checkingShortcodes && validateURL(url.originalUrl) && destinationErrors[index] && (
+                <p className="flex items-center space-x-1 mt-1 text-xs text-red-600">
+                  <AlertCircle className="w-3 h-3" />
+                  <span>{destinationErrors[index]}</span>
+                </p>
               )}
+              <label className="flex items-center space-x-2 mt-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={url.stripTracking}
+                  onChange={(e) => updateURL(index, 'stripTracking', e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Remove tracking parameters (utm_*, fbclid, gclid…) from this URL</span>
+              </label>
+              {!checkingShortcodes && !url.customShortcode.trim() && renderDuplicate(url, index)}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
                   <Clock className="w-4 h-4" />
-                  <span>Validity (minutes)</span>
+                  <span>Expires</span>
+                </label>
+                <div className="flex space-x-2">
+                  <select
+                    value={url.expiryMode}
+                    onChange={(e) => updateURL(index, 'expiryMode', e.target.value as ExpiryMode)}
+                    className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="duration">After</option>
+                    <option value="date">On</option>
+                    <option value="never">Never</option>
+                  </select>
+                  {url.expiryMode === 'duration' && (
+                    <>
+                      <input
+                        type="number"
+                        min="1"
+                        value={url.validityAmount}
+                        onChange={(e) => updateURL(index, 'validityAmount', parseInt(e.target.value) || 30)}
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <select
+                        value={url.validityUnit}
+                        onChange={(e) => updateURL(index, 'validityUnit', e.target.value as ValidityUnit)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="minutes">minutes</option>
+                        <option value="hours">hours</option>
+                        <option value="days">days</option>
+                      </select>
+                    </>
+                  )}
+                  {url.expiryMode === 'date' && (
+                    <input
+                      type="datetime-local"
+                      value={url.expiresAt}
+                      onChange={(e) => updateURL(index, 'expiresAt', e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                  <CalendarClock className="w-4 h-4" />
+                  <span>Goes Live (optional)</span>
                 </label>
                 <input
-                  type="number"
-                  min="1"
-                  max="10080"
-                  value={url.validityMinutes}
-                  onChange={(e) => updateURL(index, 'validityMinutes', parseInt(e.target.value) || 30)}
+                  type="datetime-local"
+                  value={url.activatesAt}
+                  onChange={(e) => updateURL(index, 'activatesAt', e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
                 />
               </div>
+            </div>
 
+            <div>
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                <LifeBuoy className="w-4 h-4" />
+                <span>After Expiry, Send Visitors To (optional)</span>
+              </label>
+              <input
+                type="url"
+                value={url.fallbackUrl}
+                onChange={(e) => updateURL(index, 'fallbackUrl', e.target.value)}
+                placeholder="Leave empty to tell visitors the link has expired"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
                   <Code className="w-4 h-4" />
@@ -153,8 +411,160 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, maxUrls = 5 }) => {
                   placeholder="my-link"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
                 />
+                {url.customShortcode.trim() && (checkingShortcodes ? (
+                  <p className="mt-1 text-xs text-gray-500">Checking availability…</p>
+                ) : availability[index]?.available ? (
+                  <p className="flex items-center space-x-1 mt-1 text-xs text-green-600">
+                    <CheckCircle className="w-3 h-3" />
+                    <span>Available</span>
+                  </p>
+                ) : availability[index] && (
+                  <div className="mt-1 text-xs">
+                    <p className="flex items-center space-x-1 text-red-600">
+                      <AlertCircle className="w-3 h-3" />
+                      <span>{availability[index]?.reason}</span>
+                    </p>
+                    {(availability[index]?.suggestions.length ?? 0) > 0 && (
+                      <div className="flex flex-wrap items-center gap-1 mt-1">
+                        <span className="text-gray-500">Try:</span>
+                        {availability[index]?.suggestions.map(suggestion => (
+                          <button
+                            key={suggestion}
+                            type="button"
+                            onClick={() => updateURL(index, 'customShortcode', suggestion)}
+                            className="px-2 py-0.5 font-mono border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+                          >
+                            {suggestion}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {domains.length > 1 && (
+                <div>
+                  <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                    <Globe className="w-4 h-4" />
+                    <span>Domain</span>
+                  </label>
+                  <select
+                    value={url.domainId}
+                    onChange={(e) => updateURL(index, 'domainId', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {domains.map(domain => (
+                      <option key={domain.id} value={domain.id}>{formatDomain(domain)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                  <Tag className="w-4 h-4" />
+                  <span>Tags (optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={url.tags}
+                  onChange={(e) => updateURL(index, 'tags', e.target.value)}
+                  placeholder="newsletter, q3"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                  <Folder className="w-4 h-4" />
+                  <span>Folder / Campaign (optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={url.folder}
+                  onChange={(e) => updateURL(index, 'folder', e.target.value)}
+                  placeholder="Summer Sale"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                  <CornerUpRight className="w-4 h-4" />
+                  <span>Redirect Type</span>
+                </label>
+                <select
+                  value={url.redirectType}
+                  onChange={(e) => updateURL(index, 'redirectType', Number(e.target.value) as RedirectStatusCode)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value={302}>302 Found (temporary)</option>
+                  <option value={307}>307 Temporary Redirect</option>
+                  <option value={301}>301 Moved Permanently</option>
+                </select>
+              </div>
+            </div>
+
+            <RedirectBehaviorEditor
+              behavior={url.redirectBehavior}
+              onChange={(behavior) => updateURL(index, 'redirectBehavior', behavior)}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                  <Lock className="w-4 h-4" />
+                  <span>Password (optional)</span>
+                </label>
+                <input
+                  type="password"
+                  value={url.password}
+                  onChange={(e) => updateURL(index, 'password', e.target.value)}
+                  placeholder="Visitors must enter this before being redirected"
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                  <MousePointerClick className="w-4 h-4" />
+                  <span>Click Limit (optional)</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={url.maxClicks || ''}
+                  onChange={(e) => updateURL(index, 'maxClicks', Number(e.target.value))}
+                  placeholder="Unlimited; 1 for a one-time link"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
               </div>
             </div>
+
+            <UTMBuilder
+              utm={url.utm}
+              onChange={(utm) => updateURL(index, 'utm', utm)}
+              passthrough={url.passthrough}
+              onPassthroughChange={(passthrough) => updateURL(index, 'passthrough', passthrough)}
+              destination={url.originalUrl}
+            />
+
+            <RoutingRulesEditor
+              rules={url.routingRules}
+              onChange={(rules) => updateURL(index, 'routingRules', rules)}
+            />
+
+            <VariantsEditor
+              variants={url.variants}
+              onChange={(variants) => updateURL(index, 'variants', variants)}
+              defaultDestination={url.originalUrl}
+            />
           </div>
         ))}
 
@@ -1,15 +1,20 @@
 import React, { useState } from 'react';
-import { Copy, ExternalLink, Clock, Check, AlertCircle } from 'lucide-react';
+import { Copy, ExternalLink, Clock, Check, AlertCircle, CalendarClock, Repeat, QrCode } from 'lucide-react';
 import { ShortenedURL } from '../types';
 import { format } from 'date-fns';
 import { logger } from '../utils/logger';
+import { formatExpiry } from '../utils/expiry';
+import QRCodePanel from './QRCodePanel';
 
 interface URLResultsProps {
   urls: ShortenedURL[];
+  /** Links that already existed for the same destination and were handed back instead of a new one. */
+  reusedIds?: ReadonlySet<string>;
 }
 
-const URLResults: React.FC<URLResultsProps> = ({ urls }) => {
+const URLResults: React.FC<URLResultsProps> = ({ urls, reusedIds }) => {
   const [copiedIds, setCopiedIds] = useState<Set<string>>(new Set());
+  const [qrId, setQrId] = useState<string | null>(null);
 
   const copyToClipboard = async (text: string, id: string) => {
     try {
@@ -57,6 +62,12 @@ const URLResults: React.FC<URLResultsProps> = ({ urls }) => {
                       Expired
                     </span>
                   )}
+                  {reusedIds?.has(url.id) && (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 whitespace-nowrap">
+                      <Repeat className="w-3 h-3 mr-1" />
+                      Existing link
+                    </span>
+                  )}
                 </div>
                 
                 <div className="flex items-center space-x-4 text-sm text-gray-600">
@@ -66,8 +77,14 @@ const URLResults: React.FC<URLResultsProps> = ({ urls }) => {
                   </div>
                   <div className="flex items-center space-x-1">
                     <Clock className="w-4 h-4" />
-                    <span>Expires: {format(url.expiresAt, 'MMM dd, yyyy HH:mm')}</span>
+                    <span>Expires: {formatExpiry(url)}</span>
                   </div>
+                  {url.activatesAt && (
+                    <div className="flex items-center space-x-1">
+                      <CalendarClock className="w-4 h-4" />
+                      <span>Goes live: {format(url.activatesAt, 'MMM dd, yyyy HH:mm')}</span>
+                    </div>
+                  )}
                   <span>{url.clicks.length} clicks</span>
                 </div>
               </div>
@@ -103,8 +120,20 @@ const URLResults: React.FC<URLResultsProps> = ({ urls }) => {
                   <ExternalLink className="w-4 h-4" />
                   <span>Visit</span>
                 </button>
+
+                <button
+                  onClick={() => setQrId(qrId === url.id ? null : url.id)}
+                  className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-md transition-colors ${
+                    qrId === url.id ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <QrCode className="w-4 h-4" />
+                  <span>QR</span>
+                </button>
               </div>
             </div>
+
+            {qrId === url.id && <QRCodePanel url={url} />}
           </div>
         ))}
       </div>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Megaphone } from 'lucide-react';
+import { UTMParams } from '../types';
+import { UTM_FIELDS, buildDestination, normalizeUTM } from '../utils/utm';
+
+interface UTMBuilderProps {
+  utm: UTMParams;
+  onChange: (utm: UTMParams) => void;
+  passthrough: boolean;
+  onPassthroughChange: (passthrough: boolean) => void;
+  /** Shown with the UTM parameters applied, as a preview. */
+  destination: string;
+}
+
+const UTMBuilder: React.FC<UTMBuilderProps> = ({ utm, onChange, passthrough, onPassthroughChange, destination }) => {
+  const preview = destination ? buildDestination({ utm: normalizeUTM(utm), passthrough: false }, destination) : '';
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <Megaphone className="w-4 h-4" />
+        <span>UTM Parameters (optional)</span>
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+        {UTM_FIELDS.map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <span className="block text-xs text-gray-500 mb-1">{label}</span>
+            <input
+              type="text"
+              value={utm[key] ?? ''}
+              onChange={(e) => onChange({ ...utm, [key]: e.target.value })}
+              placeholder={placeholder}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      {preview && preview !== destination && (
+        <p className="text-xs text-gray-500 break-all">
+          Visitors land on <span className="font-mono text-gray-700">{preview}</span>
+        </p>
+      )}
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={passthrough}
+          onChange={(e) => onPassthroughChange(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span>Pass the short link's query parameters and #fragment on to the destination</span>
+      </label>
+    </div>
+  );
+};
+
+export default UTMBuilder;
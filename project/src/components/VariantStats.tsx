@@ -0,0 +1,107 @@
+import React from 'react';
+import { Split, CheckCircle, AlertTriangle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { ShortenedURL } from '../types';
+import { checkSplitBalance, getVariantStats } from '../utils/splitTest';
+
+interface VariantStatsProps {
+  url: ShortenedURL;
+}
+
+const COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#8B5CF6', '#EC4899'];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const VariantStats: React.FC<VariantStatsProps> = ({ url }) => {
+  const stats = getVariantStats(url.variants, url.clicks);
+  const balance = checkSplitBalance(stats);
+
+  // One row per day with a click count per variant
+  const byDay = new Map<string, Record<string, number | string>>();
+  url.clicks
+    .filter(click => click.variantId !== undefined)
+    .forEach(click => {
+      const day = format(click.timestamp, 'yyyy-MM-dd');
+      const row = byDay.get(day) ?? { date: format(click.timestamp, 'MMM dd'), ...Object.fromEntries(stats.map(stat => [stat.label, 0])) };
+      const stat = stats.find(s => s.variant.id === click.variantId);
+      if (stat) {
+        row[stat.label] = (row[stat.label] as number) + 1;
+      }
+      byDay.set(day, row);
+    });
+  const clicksOverTime = [...byDay.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, row]) => row);
+
+  return (
+    <div>
+      <h4 className="flex items-center space-x-2 text-lg font-medium text-gray-900 mb-4">
+        <Split className="w-5 h-5" />
+        <span>A/B Split</span>
+      </h4>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variant</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Destination</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weight</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Clicks</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Share</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {stats.map((stat, index) => (
+              <tr key={stat.variant.id}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium" style={{ color: COLORS[index % COLORS.length] }}>
+                  {stat.label}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-900 max-w-xs truncate">{stat.variant.destination}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatPercent(stat.expectedShare)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{stat.clicks}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatPercent(stat.share)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {balance.pValue === null ? (
+        <p className="text-sm text-gray-500 mb-4">Not enough clicks yet to check that traffic is split as weighted.</p>
+      ) : balance.skewed ? (
+        <p className="flex items-center space-x-2 text-sm text-amber-700 mb-4">
+          <AlertTriangle className="w-4 h-4" />
+          <span>
+            Traffic split check: clicks don't match the weights (p = {balance.pValue.toFixed(3)}), so visitors aren't being
+            divided as configured, e.g. because many of them share one visitor id.
+          </span>
+        </p>
+      ) : (
+        <p className="flex items-center space-x-2 text-sm text-green-700 mb-4">
+          <CheckCircle className="w-4 h-4" />
+          <span>Traffic split check: clicks match the weights (p = {balance.pValue.toFixed(3)}).</span>
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mb-4">
+        This only checks that the split works; clicks alone don't show which destination performs better.
+      </p>
+
+      {clicksOverTime.length > 0 && (
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={clicksOverTime}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            {stats.map((stat, index) => (
+              <Line key={stat.variant.id} type="monotone" dataKey={stat.label} stroke={COLORS[index % COLORS.length]} strokeWidth={2} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
+export default VariantStats;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Plus, X, Split } from 'lucide-react';
+import { SplitVariant } from '../types';
+import { variantLabel } from '../utils/splitTest';
+
+interface VariantsEditorProps {
+  variants: SplitVariant[];
+  onChange: (variants: SplitVariant[]) => void;
+  /** Destination the first variant starts from when a split is turned on. */
+  defaultDestination: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+const newVariant = (destination: string, weight: number): SplitVariant => ({ id: crypto.randomUUID(), destination, weight });
+
+const VariantsEditor: React.FC<VariantsEditorProps> = ({ variants, onChange, defaultDestination }) => {
+  const totalWeight = variants.reduce((sum, variant) => sum + (variant.weight || 0), 0);
+
+  const updateVariant = (index: number, changes: Partial<SplitVariant>) => {
+    onChange(variants.map((variant, i) => i === index ? { ...variant, ...changes } : variant));
+  };
+
+  const startSplit = () => {
+    onChange([newVariant(defaultDestination, 50), newVariant('', 50)]);
+  };
+
+  const removeVariant = (index: number) => {
+    const remaining = variants.filter((_, i) => i !== index);
+    // A single variant isn't a split
+    onChange(remaining.length < 2 ? [] : remaining);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <Split className="w-4 h-4" />
+        <span>A/B Split (optional)</span>
+      </label>
+
+      {variants.length === 0 ? (
+        <button
+          type="button"
+          onClick={startSplit}
+          className="flex items-center space-x-2 px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Split Traffic Between Destinations</span>
+        </button>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500">
+            Visitors are spread across these by weight and keep seeing the same one. Routing rules are checked first.
+          </p>
+          {variants.map((variant, index) => (
+            <div key={variant.id} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={variant.label ?? ''}
+                onChange={(e) => updateVariant(index, { label: e.target.value || undefined })}
+                placeholder={variantLabel(variants, { ...variant, label: undefined })}
+                className={`${inputClassName} md:w-32 flex-shrink-0`}
+              />
+              <input
+                type="url"
+                value={variant.destination}
+                onChange={(e) => updateVariant(index, { destination: e.target.value })}
+                placeholder="https://example.com/landing-b"
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min="1"
+                value={variant.weight || ''}
+                onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })}
+                className={`${inputClassName} w-20 flex-shrink-0`}
+              />
+              <span className="w-12 text-sm text-gray-500 text-right flex-shrink-0">
+                {totalWeight > 0 ? Math.round((variant.weight || 0) / totalWeight * 100) : 0}%
+              </span>
+              <button
+                type="button"
+                onClick={() => removeVariant(index)}
+                className="p-1 text-red-500 hover:text-red-700"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange([...variants, newVariant('', 1)])}
+            className="flex items-center space-x-2 px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Variant</span>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VariantsEditor;
@@ -1,16 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import URLForm from '../components/URLForm';
 import URLResults from '../components/URLResults';
+import BulkImport from '../components/BulkImport';
 import { URLFormData, ShortenedURL } from '../types';
-import { urlShortenerService } from '../utils/urlShortener';
+import { urlShortenerService } from '../utils/backend';
 import { logger } from '../utils/logger';
+import { toMinutes } from '../utils/expiry';
+import { toCreateOptions } from '../utils/urlForm';
 
 const Home: React.FC = () => {
   const [createdUrls, setCreatedUrls] = useState<ShortenedURL[]>([]);
+  const [reusedIds, setReusedIds] = useState<Set<string>>(new Set());
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mode, setMode] = useState<'form' | 'import'>('form');
 
   useEffect(() => {
     logger.info('Home page mounted', undefined, 'Home');
+
+    // Keep click counts on freshly created links current
+    return urlShortenerService.subscribe((latest) => {
+      setCreatedUrls(prev => prev
+        .map(created => latest.find(url => url.id === created.id))
+        .filter((url): url is ShortenedURL => url !== undefined));
+    });
   }, []);
 
   const handleFormSubmit = async (urls: URLFormData[]) => {
@@ -19,25 +31,29 @@ const Home: React.FC = () => {
 
     try {
       const newUrls: ShortenedURL[] = [];
+      // Links that already existed were reused (or extended) rather than created
+      const existingIds = new Set((await urlShortenerService.getAllURLs()).map(url => url.id));
       
       for (const urlData of urls) {
         try {
-          const shortenedUrl = urlShortenerService.createShortenedURL(
+          const shortenedUrl = await urlShortenerService.createShortenedURL(
             urlData.originalUrl,
-            urlData.validityMinutes,
-            urlData.customShortcode || undefined
+            toMinutes(urlData.validityAmount, urlData.validityUnit),
+            urlData.customShortcode || undefined,
+            toCreateOptions(urlData)
           );
           newUrls.push(shortenedUrl);
         } catch (error) {
           logger.error('Failed to create shortened URL', { 
             error: error instanceof Error ? error.message : error,
-            urlData 
+            urlData: { ...urlData, password: urlData.password ? '[redacted]' : '' }
           }, 'Home');
           throw error;
         }
       }
 
       setCreatedUrls(newUrls);
+      setReusedIds(new Set(newUrls.filter(url => existingIds.has(url.id)).map(url => url.id)));
       logger.info('Successfully created all URLs', { count: newUrls.length }, 'Home');
     } catch (error) {
       logger.error('URL creation process failed', error, 'Home');
@@ -59,16 +75,36 @@ const Home: React.FC = () => {
         </p>
       </div>
 
-      <URLForm onSubmit={handleFormSubmit} />
-      
-      {isSubmitting && (
-        <div className="text-center py-8">
-          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-          <p className="mt-2 text-gray-600">Creating your short URLs...</p>
-        </div>
-      )}
+      <div className="flex justify-center space-x-1">
+        {(['form', 'import'] as const).map(tab => (
+          <button
+            key={tab}
+            onClick={() => setMode(tab)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              mode === tab ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+            }`}
+          >
+            {tab === 'form' ? 'Create Links' : 'Import from File'}
+          </button>
+        ))}
+      </div>
 
-      <URLResults urls={createdUrls} />
+      {mode === 'import' ? (
+        <BulkImport />
+      ) : (
+        <>
+          <URLForm onSubmit={handleFormSubmit} />
+
+          {isSubmitting && (
+            <div className="text-center py-8">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <p className="mt-2 text-gray-600">Creating your short URLs...</p>
+            </div>
+          )}
+
+          <URLResults urls={createdUrls} reusedIds={reusedIds} />
+        </>
+      )}
     </div>
   );
 };
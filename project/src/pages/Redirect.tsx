@@ -1,14 +1,50 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, Navigate } from 'react-router-dom';
-import { urlShortenerService } from '../utils/urlShortener';
+import { useParams, useLocation, Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { RedirectBehavior, ShortenedURL } from '../types';
+import { urlShortenerService } from '../utils/backend';
 import { logger } from '../utils/logger';
-import { ExternalLink, AlertCircle, Clock } from 'lucide-react';
+import { describeExpiry } from '../utils/expiry';
+import { getBrowserContext, resolveDestination } from '../utils/routing';
+import { buildDestination } from '../utils/utm';
+import { isUnsafeDestination } from '../utils/destinationPolicy';
+import { DEFAULT_DOMAIN_ID, matchShortLink } from '../utils/domains';
+import { takeSourceTag } from '../utils/clickSource';
+import { ExternalLink, AlertCircle, Clock, Lock, CalendarClock, ShieldAlert, Home } from 'lucide-react';
+
+/** Time left until a scheduled link goes live, e.g. "2d 03:15:09". */
+const formatTimeLeft = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const time = [Math.floor(totalSeconds / 3600) % 24, Math.floor(totalSeconds / 60) % 60, totalSeconds % 60]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${time}` : time;
+};
 
 const Redirect: React.FC = () => {
-  const { shortCode } = useParams<{ shortCode: string }>();
-  const [status, setStatus] = useState<'loading' | 'found' | 'expired' | 'notfound'>('loading');
+  const { shortCode, domainId } = useParams<{ shortCode: string; domainId?: string }>();
+  const location = useLocation();
+  const { pathname, hash } = location;
+  // A QR code scan is tagged in the query string; the tag is recorded rather than passed on
+  const { source: taggedSource, search } = takeSourceTag(location.search);
+  const [linkDomainId, setLinkDomainId] = useState(DEFAULT_DOMAIN_ID);
+  const [status, setStatus] = useState<'loading' | 'found' | 'locked' | 'scheduled' | 'expired' | 'notfound' | 'blocked'>('loading');
   const [originalUrl, setOriginalUrl] = useState<string>('');
-  const [countdown, setCountdown] = useState(5);
+  const [expiredUrl, setExpiredUrl] = useState<ShortenedURL | null>(null);
+  // The interstitial page's mode and text, set once the destination is known
+  const [behavior, setBehavior] = useState<RedirectBehavior | null>(null);
+  const [countdown, setCountdown] = useState(0);
+  const [password, setPassword] = useState('');
+  const [unlockError, setUnlockError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [activatesAt, setActivatesAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  // Bumped to look the link up again once a scheduled link goes live
+  const [lookupCount, setLookupCount] = useState(0);
+
+  // Set once the click is recorded, either straight away or after unlocking
+  const [target, setTarget] = useState<{ url: ShortenedURL; source: string } | null>(null);
 
   useEffect(() => {
     if (!shortCode) {
@@ -18,38 +54,134 @@ const Redirect: React.FC = () => {
 
     logger.info('Redirect request initiated', { shortCode }, 'Redirect');
 
-    const url = urlShortenerService.getURLByShortCode(shortCode);
-    
-    if (!url) {
-      setStatus('notfound');
-      logger.warn('Short code not found', { shortCode }, 'Redirect');
+    let cancelled = false;
+
+    const resolve = async () => {
+      // The API server names the domain in /go/ links; otherwise it is the one this page was opened on
+      const resolvedDomainId = domainId
+        ?? matchShortLink(window.location.host, pathname, await urlShortenerService.getDomains())?.domainId
+        ?? DEFAULT_DOMAIN_ID;
+      const resolution = await urlShortenerService.resolveShortCode(shortCode, resolvedDomainId);
+      const { status: linkStatus, url } = resolution;
+      if (cancelled) {
+        return;
+      }
+      setLinkDomainId(resolvedDomainId);
+
+      // Expired links with a fallback, and unknown shortcodes when there is a global one, send visitors on
+      if ((linkStatus === 'expired' || linkStatus === 'notfound') && resolution.fallbackUrl && !isUnsafeDestination(resolution.fallbackUrl)) {
+        logger.info('Redirecting to fallback', { shortCode, status: linkStatus, fallbackUrl: resolution.fallbackUrl }, 'Redirect');
+        window.location.replace(resolution.fallbackUrl);
+        return;
+      }
+
+      if (linkStatus === 'scheduled' && resolution.activatesAt) {
+        setActivatesAt(resolution.activatesAt);
+        setNow(new Date());
+        setStatus('scheduled');
+        logger.info('Short code is not live yet', { shortCode, activatesAt: resolution.activatesAt }, 'Redirect');
+        return;
+      }
+
+      if (linkStatus === 'locked') {
+        setStatus('locked');
+        logger.info('Password required for short code', { shortCode }, 'Redirect');
+        return;
+      }
+
+      if (linkStatus === 'notfound' || !url) {
+        setStatus('notfound');
+        logger.warn('Short code not found', { shortCode }, 'Redirect');
+        return;
+      }
+
+      if (linkStatus === 'expired') {
+        setExpiredUrl(url);
+        setStatus('expired');
+        logger.warn('Attempted redirect to expired URL', { shortCode, reason: url.expiredReason }, 'Redirect');
+        return;
+      }
+
+      // Record the click
+      const source = taggedSource ?? (document.referrer || 'direct');
+      await urlShortenerService.recordClick(shortCode, source, getBrowserContext(), resolvedDomainId);
+      if (!cancelled) {
+        setTarget({ url, source });
+      }
+    };
+
+    resolve();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shortCode, domainId, pathname, taggedSource, lookupCount]);
+
+  useEffect(() => {
+    if (status !== 'scheduled' || !activatesAt) {
       return;
     }
 
-    if (url.isExpired) {
-      setStatus('expired');
-      logger.warn('Attempted redirect to expired URL', { shortCode, expiresAt: url.expiresAt }, 'Redirect');
+    const timer = setInterval(() => {
+      const current = new Date();
+      setNow(current);
+      if (current >= activatesAt) {
+        setStatus('loading');
+        setLookupCount(prev => prev + 1);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [status, activatesAt]);
+
+  useEffect(() => {
+    if (!target) {
       return;
     }
 
-    // Record the click
-    const source = document.referrer || 'direct';
-    urlShortenerService.recordClick(shortCode, source);
-    
-    setOriginalUrl(url.originalUrl);
-    setStatus('found');
-    
-    logger.info('Successful redirect', { 
-      shortCode, 
-      originalUrl: url.originalUrl, 
-      source 
+    const { url, source } = target;
+    const resolved = resolveDestination(url, {
+      ...getBrowserContext(),
+      userAgent: navigator.userAgent,
+      time: new Date()
+    });
+    const { rule, variant } = resolved;
+    const destination = buildDestination(url, resolved.destination, { search, hash });
+    // Links saved before destinations were checked may still hold a javascript: or data: URL
+    if (isUnsafeDestination(destination)) {
+      logger.error('Refused to redirect to an unsafe destination', { shortCode, destination }, 'Redirect');
+      setStatus('blocked');
+      return;
+    }
+    logger.info('Successful redirect', {
+      shortCode,
+      destination,
+      matchedRule: rule?.id,
+      variantId: variant?.id,
+      source,
+      redirectMode: url.redirectBehavior.mode
     }, 'Redirect');
 
-    // Start countdown
+    if (url.redirectBehavior.mode === 'instant') {
+      window.location.replace(destination);
+      return;
+    }
+
+    setOriginalUrl(destination);
+    setBehavior(url.redirectBehavior);
+    setCountdown(url.redirectBehavior.countdownSeconds);
+    setStatus('found');
+  }, [target, shortCode, search, hash]);
+
+  useEffect(() => {
+    if (status !== 'found' || !originalUrl || behavior?.mode !== 'countdown') {
+      return;
+    }
+
     const timer = setInterval(() => {
       setCountdown(prev => {
         if (prev <= 1) {
-          window.location.href = url.originalUrl;
+          window.location.href = originalUrl;
           return 0;
         }
         return prev - 1;
@@ -57,7 +189,42 @@ const Redirect: React.FC = () => {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [shortCode]);
+  }, [status, originalUrl, behavior]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shortCode || !password) {
+      return;
+    }
+
+    setIsUnlocking(true);
+    setUnlockError('');
+    const source = taggedSource ?? (document.referrer || 'direct');
+    try {
+      const result = await urlShortenerService.unlockShortCode(shortCode, password, source, getBrowserContext(), linkDomainId);
+      switch (result.status) {
+        case 'unlocked':
+          setTarget({ url: result.url!, source });
+          break;
+        case 'denied':
+          logger.warn('Incorrect password entered', { shortCode, attemptsLeft: result.attemptsLeft }, 'Redirect');
+          setUnlockError(`Incorrect password. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`);
+          break;
+        case 'blocked':
+          logger.warn('Password attempts blocked', { shortCode, retryAt: result.retryAt }, 'Redirect');
+          setUnlockError(`Too many incorrect attempts. Try again after ${result.retryAt ? format(result.retryAt, 'HH:mm') : 'a while'}.`);
+          break;
+        default:
+          setStatus(result.status);
+      }
+    } catch (error) {
+      logger.error('Failed to unlock short code', { shortCode, error: error instanceof Error ? error.message : error }, 'Redirect');
+      setUnlockError('Could not check the password. Please try again.');
+    } finally {
+      setPassword('');
+      setIsUnlocking(false);
+    }
+  };
 
   const handleManualRedirect = () => {
     if (originalUrl) {
@@ -66,6 +233,16 @@ const Redirect: React.FC = () => {
     }
   };
 
+  const homeLink = (
+    <Link
+      to="/"
+      className="inline-flex items-center space-x-2 text-blue-600 hover:text-blue-800"
+    >
+      <Home className="w-4 h-4" />
+      <span>Go to the homepage</span>
+    </Link>
+  );
+
   if (status === 'loading') {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
@@ -77,7 +254,9 @@ const Redirect: React.FC = () => {
     );
   }
 
-  if (status === 'found') {
+  if (status === 'found' && behavior) {
+    const counting = behavior.mode === 'countdown';
+    const countdownText = `You will be redirected to your destination in ${countdown} seconds.`;
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
         <div className="bg-white p-8 rounded-lg shadow-md text-center max-w-md w-full mx-4">
@@ -85,10 +264,13 @@ const Redirect: React.FC = () => {
             <div className="bg-blue-100 p-3 rounded-full inline-block mb-4">
               <ExternalLink className="w-8 h-8 text-blue-600" />
             </div>
-            <h1 className="text-2xl font-bold text-gray-900 mb-2">Redirecting...</h1>
-            <p className="text-gray-600 mb-4">
-              You will be redirected to your destination in {countdown} seconds.
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              {behavior.title ?? (counting ? 'Redirecting...' : 'Leaving this site')}
+            </h1>
+            <p className="text-gray-600 mb-4 whitespace-pre-line">
+              {behavior.description ?? (counting ? countdownText : 'This link takes you to the page below. Continue only if you trust it.')}
             </p>
+            {counting && behavior.description && <p className="text-sm text-gray-500 mb-4">{countdownText}</p>}
           </div>
 
           <div className="bg-gray-50 p-4 rounded-lg mb-6">
@@ -101,13 +283,65 @@ const Redirect: React.FC = () => {
             className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
           >
             <ExternalLink className="w-4 h-4" />
-            <span>Go Now</span>
+            <span>{counting ? 'Go Now' : 'Continue'}</span>
           </button>
         </div>
       </div>
     );
   }
 
+  if (status === 'locked') {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <form onSubmit={handleUnlock} className="bg-white p-8 rounded-lg shadow-md text-center max-w-md w-full mx-4">
+          <div className="bg-blue-100 p-3 rounded-full inline-block mb-4">
+            <Lock className="w-8 h-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Password Required</h1>
+          <p className="text-gray-600 mb-6">
+            This link is protected. Enter the password to continue.
+          </p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            autoComplete="current-password"
+            className="w-full px-3 py-2 mb-4 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+          {unlockError && <p className="text-sm text-red-600 mb-4">{unlockError}</p>}
+          <button
+            type="submit"
+            disabled={isUnlocking || !password}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isUnlocking ? 'Checking...' : 'Continue'}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (status === 'scheduled' && activatesAt) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md text-center max-w-md w-full mx-4">
+          <div className="bg-blue-100 p-3 rounded-full inline-block mb-4">
+            <CalendarClock className="w-8 h-8 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Not Live Yet</h1>
+          <p className="text-gray-600 mb-6">
+            This link goes live on {format(activatesAt, 'MMM dd, yyyy HH:mm')}.
+          </p>
+          <p className="text-3xl font-mono font-bold text-blue-600">
+            {formatTimeLeft(activatesAt.getTime() - now.getTime())}
+          </p>
+          <p className="text-sm text-gray-500 mt-2">You'll be redirected automatically.</p>
+        </div>
+      </div>
+    );
+  }
+
   if (status === 'expired') {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
@@ -116,10 +350,30 @@ const Redirect: React.FC = () => {
             <Clock className="w-8 h-8 text-yellow-600" />
           </div>
           <h1 className="text-2xl font-bold text-gray-900 mb-4">Link Expired</h1>
+          <p className="text-gray-600 mb-4">
+            {expiredUrl ? describeExpiry(expiredUrl) : 'This shortened URL has expired and is no longer valid.'}
+          </p>
+          <p className="text-sm text-gray-500 mb-6">
+            Short links can stop working after a set time or number of visits, or when their owner turns them off.
+            If you still need the page, ask whoever shared the link for a new one.
+          </p>
+          {homeLink}
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'blocked') {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md text-center max-w-md w-full mx-4">
+          <div className="bg-red-100 p-3 rounded-full inline-block mb-4">
+            <ShieldAlert className="w-8 h-8 text-red-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Link Blocked</h1>
           <p className="text-gray-600 mb-6">
-            This shortened URL has expired and is no longer valid.
+            This link points somewhere that isn't safe to open, so you haven't been redirected.
           </p>
-          <Navigate to="/" replace />
         </div>
       </div>
     );
@@ -133,10 +387,14 @@ const Redirect: React.FC = () => {
           <AlertCircle className="w-8 h-8 text-red-600" />
         </div>
         <h1 className="text-2xl font-bold text-gray-900 mb-4">Link Not Found</h1>
-        <p className="text-gray-600 mb-6">
+        <p className="text-gray-600 mb-4">
           The shortened URL you're looking for doesn't exist or has been removed.
         </p>
-        <Navigate to="/" replace />
+        <p className="text-sm text-gray-500 mb-6">
+          Check that the link{shortCode && <> ending in <code className="text-gray-700">{shortCode}</code></>} was copied in full,
+          including upper- and lowercase letters. If it was, its owner may have deleted it.
+        </p>
+        {homeLink}
       </div>
     </div>
   );
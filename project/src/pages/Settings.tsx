@@ -0,0 +1,38 @@
+import React, { useEffect } from 'react';
+import BackupRestore from '../components/BackupRestore';
+import ShortcodeSettings from '../components/ShortcodeSettings';
+import DestinationSettings from '../components/DestinationSettings';
+import DomainSettings from '../components/DomainSettings';
+import FallbackSettings from '../components/FallbackSettings';
+import { logger } from '../utils/logger';
+
+const Settings: React.FC = () => {
+  useEffect(() => {
+    logger.info('Settings page mounted', undefined, 'Settings');
+  }, []);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold text-gray-900 mb-4">
+          Settings
+        </h1>
+        <p className="text-xl text-gray-600">
+          Choose how shortcodes are generated, where links may point, which domains serve them and where missing links go, and back up your links
+        </p>
+      </div>
+
+      <ShortcodeSettings />
+
+      <DestinationSettings />
+
+      <DomainSettings />
+
+      <FallbackSettings />
+
+      <BackupRestore />
+    </div>
+  );
+};
+
+export default Settings;
@@ -1,47 +1,183 @@
 import React, { useState, useEffect } from 'react';
-import { Link, MousePointer, Clock, TrendingUp, Globe, Trash2 } from 'lucide-react';
+import { Link, MousePointer, Clock, TrendingUp, Globe, Trash2, Filter, Lock, QrCode } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 import StatisticsCard from '../components/StatisticsCard';
-import { ShortenedURL } from '../types';
-import { urlShortenerService } from '../utils/urlShortener';
+import URLEditor from '../components/URLEditor';
+import RevisionHistory from '../components/RevisionHistory';
+import TrashBin from '../components/TrashBin';
+import TagSummary from '../components/TagSummary';
+import VariantStats from '../components/VariantStats';
+import QRCodePanel from '../components/QRCodePanel';
+import { ClickData, ExpiredReason, ShortenedURL, URLUpdate, UTMParams } from '../types';
+import { urlShortenerService, usesApiServer } from '../utils/backend';
+import { settingsStore } from '../utils/settings';
 import { format } from 'date-fns';
 import { logger } from '../utils/logger';
+import { isScheduled } from '../utils/expiry';
+import { describeRule } from '../utils/routing';
+import { variantLabel } from '../utils/splitTest';
+import { UTM_FIELDS, formatUTM } from '../utils/utm';
+
+const formatRouting = (url: ShortenedURL, click: ClickData) => {
+  if (click.matchedRule) {
+    const index = url.routingRules.findIndex(rule => rule.id === click.matchedRule);
+    return index === -1 ? 'Removed rule' : `Rule ${index + 1}: ${describeRule(url.routingRules[index])}`;
+  }
+  if (click.variantId) {
+    const variant = url.variants.find(v => v.id === click.variantId);
+    return variant ? variantLabel(url.variants, variant) : 'Removed variant';
+  }
+  return 'Default';
+};
+
+const EXPIRED_LABELS: Record<ExpiredReason, string> = {
+  time: 'Expired',
+  clicks: 'Used up',
+  manual: 'Deactivated'
+};
+
+const formatUsesLeft = (url: ShortenedURL) =>
+  url.maxClicks === undefined ? 'Unlimited' : `${Math.max(0, url.maxClicks - url.clicks.length)} of ${url.maxClicks}`;
 
 const Statistics: React.FC = () => {
   const [urls, setUrls] = useState<ShortenedURL[]>([]);
   const [selectedUrl, setSelectedUrl] = useState<ShortenedURL | null>(null);
+  const [editorName, setEditorName] = useState('');
+  const [trashedUrls, setTrashedUrls] = useState<ShortenedURL[]>([]);
+  const [view, setView] = useState<'all' | 'trash'>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [trashRetentionDays, setTrashRetentionDays] = useState(settingsStore.get().trashRetentionDays);
+  const [tagFilter, setTagFilter] = useState('');
+  const [folderFilter, setFolderFilter] = useState('');
+  const [utmFilters, setUtmFilters] = useState<UTMParams>({});
 
   useEffect(() => {
     loadData();
     logger.info('Statistics page mounted', undefined, 'Statistics');
+
+    const unsubscribeSettings = settingsStore.subscribe(settings => setTrashRetentionDays(settings.trashRetentionDays));
+    // Pick up clicks and edits from other tabs as they happen
+    const unsubscribeUrls = urlShortenerService.subscribe((latest) => {
+      setUrls(latest);
+      setSelectedUrl(prev => prev ? latest.find(url => url.id === prev.id) ?? null : null);
+      urlShortenerService.getTrashedURLs().then(setTrashedUrls);
+    });
+
+    return () => {
+      unsubscribeSettings();
+      unsubscribeUrls();
+    };
   }, []);
 
-  const loadData = () => {
-    const allUrls = urlShortenerService.getAllURLs();
+  const loadData = async () => {
+    const allUrls = await urlShortenerService.getAllURLs();
     setUrls(allUrls);
+    setTrashedUrls(await urlShortenerService.getTrashedURLs());
     logger.info('Statistics data loaded', { urlCount: allUrls.length }, 'Statistics');
   };
 
-  const handleDeleteUrl = (id: string) => {
-    if (window.confirm('Are you sure you want to delete this URL?')) {
-      urlShortenerService.deleteURL(id);
-      loadData();
-      if (selectedUrl?.id === id) {
+  const handleDeleteUrls = async (ids: string[]) => {
+    try {
+      const count = await urlShortenerService.deleteURLs(ids);
+      await loadData();
+      if (selectedUrl && ids.includes(selectedUrl.id)) {
         setSelectedUrl(null);
       }
-      logger.info('URL deleted from statistics', { id }, 'Statistics');
+      setSelectedIds(new Set());
+      logger.info('URLs moved to trash from statistics', { ids, count }, 'Statistics');
+    } catch (error) {
+      logger.error('Failed to move URLs to trash', { ids, error: error instanceof Error ? error.message : error }, 'Statistics');
+      alert(error instanceof Error ? error.message : 'Failed to move to trash');
     }
   };
 
-  const totalClicks = urls.reduce((sum, url) => sum + url.clicks.length, 0);
-  const activeUrls = urls.filter(url => !url.isExpired).length;
-  const expiredUrls = urls.length - activeUrls;
+  const handleRestoreUrls = async (ids: string[]) => {
+    try {
+      const count = await urlShortenerService.restoreURLs(ids);
+      await loadData();
+      logger.info('URLs restored from statistics', { ids, count }, 'Statistics');
+    } catch (error) {
+      logger.error('Failed to restore URLs from trash', { ids, error: error instanceof Error ? error.message : error }, 'Statistics');
+      alert(error instanceof Error ? error.message : 'Failed to restore from trash');
+    }
+  };
+
+  const handlePurgeUrls = async (ids: string[]) => {
+    const message = ids.length === 1
+      ? 'Permanently delete this URL and its click history? This cannot be undone.'
+      : `Permanently delete ${ids.length} URLs and their click history? This cannot be undone.`;
+    if (!window.confirm(message)) {
+      return;
+    }
+    try {
+      const count = await urlShortenerService.purgeURLs(ids);
+      await loadData();
+      logger.info('URLs permanently deleted from statistics', { ids, count }, 'Statistics');
+    } catch (error) {
+      logger.error('Failed to permanently delete URLs', { ids, error: error instanceof Error ? error.message : error }, 'Statistics');
+      alert(error instanceof Error ? error.message : 'Failed to delete permanently');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allTags = [...new Set(urls.flatMap(url => url.tags))].sort();
+  const allFolders = [...new Set(urls.flatMap(url => url.folder ? [url.folder] : []))].sort();
+  // Only offer UTM fields that some link actually uses
+  const utmOptions = UTM_FIELDS
+    .map(field => ({ ...field, values: [...new Set(urls.flatMap(url => url.utm?.[field.key] ?? []))].sort() }))
+    .filter(field => field.values.length > 0);
+  const visibleUrls = urls.filter(url =>
+    (!tagFilter || url.tags.includes(tagFilter)) &&
+    (!folderFilter || url.folder === folderFilter) &&
+    UTM_FIELDS.every(({ key }) => !utmFilters[key] || url.utm?.[key] === utmFilters[key])
+  );
+  const hasUtmFilter = Object.values(utmFilters).some(Boolean);
+
+  const selectedVisibleIds = visibleUrls.filter(url => selectedIds.has(url.id)).map(url => url.id);
+  const allSelected = visibleUrls.length > 0 && selectedVisibleIds.length === visibleUrls.length;
+
+  const handleUpdateUrl = async (id: string, update: URLUpdate) => {
+    const updated = await urlShortenerService.updateURL(id, update, editorName);
+    setSelectedUrl(updated);
+    await loadData();
+    logger.info('URL edited from statistics', { id, fields: Object.keys(update) }, 'Statistics');
+  };
+
+  const handleRevertRevision = async (id: string, revisionId: string) => {
+    if (!window.confirm('Roll back this change?')) {
+      return;
+    }
+    try {
+      const updated = await urlShortenerService.revertRevision(id, revisionId, editorName);
+      setSelectedUrl(updated);
+      await loadData();
+      logger.info('URL revision rolled back from statistics', { id, revisionId }, 'Statistics');
+    } catch (error) {
+      logger.error('Failed to roll back URL revision', { id, revisionId, error: error instanceof Error ? error.message : error }, 'Statistics');
+      alert(error instanceof Error ? error.message : 'Failed to roll back change');
+    }
+  };
+
+  const totalClicks = visibleUrls.reduce((sum, url) => sum + url.clicks.length, 0);
+  const activeUrls = visibleUrls.filter(url => !url.isExpired && !isScheduled(url)).length;
+  const expiredUrls = visibleUrls.filter(url => url.isExpired).length;
 
   // Chart data for clicks over time
   const getClicksOverTime = () => {
     const clicksByDate: { [key: string]: number } = {};
     
-    urls.forEach(url => {
+    visibleUrls.forEach(url => {
       url.clicks.forEach(click => {
         const date = format(click.timestamp, 'MMM dd');
         clicksByDate[date] = (clicksByDate[date] || 0) + 1;
@@ -55,7 +191,7 @@ const Statistics: React.FC = () => {
 
   // Chart data for URL performance
   const getUrlPerformance = () => {
-    return urls
+    return visibleUrls
       .map(url => ({
         shortCode: url.shortCode,
         clicks: url.clicks.length,
@@ -79,11 +215,63 @@ const Statistics: React.FC = () => {
         </p>
       </div>
 
+      {/* Filters */}
+      {(allTags.length > 0 || allFolders.length > 0 || utmOptions.length > 0) && (
+        <div className="bg-white rounded-lg shadow-md px-6 py-4 flex flex-wrap items-center gap-4">
+          <Filter className="w-5 h-5 text-gray-500" />
+          <select
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">All tags</option>
+            {allTags.map(tag => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+          <select
+            value={folderFilter}
+            onChange={(e) => setFolderFilter(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">All folders</option>
+            {allFolders.map(folder => (
+              <option key={folder} value={folder}>{folder}</option>
+            ))}
+          </select>
+          {utmOptions.map(({ key, label, values }) => (
+            <select
+              key={key}
+              value={utmFilters[key] ?? ''}
+              onChange={(e) => setUtmFilters(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+            >
+              <option value="">All UTM {label.toLowerCase()}s</option>
+              {values.map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          ))}
+          {(tagFilter || folderFilter || hasUtmFilter) && (
+            <button
+              onClick={() => {
+                setTagFilter('');
+                setFolderFilter('');
+                setUtmFilters({});
+              }}
+              className="text-sm text-blue-600 hover:text-blue-900"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Statistics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatisticsCard
           title="Total URLs"
-          value={urls.length}
+          value={visibleUrls.length}
           icon={Link}
         />
         <StatisticsCard
@@ -134,85 +322,159 @@ const Statistics: React.FC = () => {
         </div>
       </div>
 
+      <TagSummary urls={visibleUrls} onSelectTag={setTagFilter} />
+
       {/* URL List */}
       <div className="bg-white rounded-lg shadow-md">
-        <div className="px-6 py-4 border-b border-gray-200">
-          <h3 className="text-lg font-semibold text-gray-900">All URLs</h3>
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex space-x-1">
+            {(['all', 'trash'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setView(tab)}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  view === tab ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                {tab === 'all' ? `All URLs (${visibleUrls.length})` : `Trash (${trashedUrls.length})`}
+              </button>
+            ))}
+          </div>
+          {view === 'all' && (
+            <button
+              onClick={() => handleDeleteUrls(selectedVisibleIds)}
+              disabled={selectedVisibleIds.length === 0}
+              className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-100 text-red-700 rounded-md hover:bg-red-200 transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Move to Trash ({selectedVisibleIds.length})</span>
+            </button>
+          )}
         </div>
-        
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  URL
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Short Code
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Clicks
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Created
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Status
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {urls.map((url) => (
-                <tr key={url.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900 max-w-xs truncate">
-                      {url.originalUrl}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <code className="text-sm font-mono text-blue-600">
-                      {url.shortCode}
-                    </code>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {url.clicks.length}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {format(url.createdAt, 'MMM dd, yyyy')}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                      url.isExpired 
-                        ? 'bg-red-100 text-red-800' 
-                        : 'bg-green-100 text-green-800'
-                    }`}>
-                      {url.isExpired ? 'Expired' : 'Active'}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => setSelectedUrl(url)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        View Details
-                      </button>
-                      <button
-                        onClick={() => handleDeleteUrl(url.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  </td>
+
+        {view === 'trash' ? (
+          <TrashBin
+            urls={trashedUrls}
+            retentionDays={usesApiServer ? undefined : trashRetentionDays}
+            onRetentionChange={(days) => settingsStore.update({ trashRetentionDays: days })}
+            onRestore={handleRestoreUrls}
+            onPurge={handlePurgeUrls}
+          />
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelectedIds(allSelected ? new Set() : new Set(visibleUrls.map(url => url.id)))}
+                      className="rounded border-gray-300"
+                    />
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    URL
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Short Code
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Clicks
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Uses Left
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Created
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleUrls.map((url) => (
+                  <tr key={url.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(url.id)}
+                        onChange={() => toggleSelected(url.id)}
+                        className="rounded border-gray-300"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900 max-w-xs truncate">
+                        {url.originalUrl}
+                      </div>
+                      {(url.folder || url.tags.length > 0) && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {url.folder && (
+                            <span className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full">{url.folder}</span>
+                          )}
+                          {url.tags.map(tag => (
+                            <span key={tag} className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded-full">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center space-x-1">
+                        <code className="text-sm font-mono text-blue-600">
+                          {url.shortCode}
+                        </code>
+                        {url.hasPassword && (
+                          <span title="Password protected">
+                            <Lock className="w-3 h-3 text-gray-500" />
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {url.clicks.length}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatUsesLeft(url)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {format(url.createdAt, 'MMM dd, yyyy')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        url.isExpired 
+                          ? 'bg-red-100 text-red-800' 
+                          : isScheduled(url) ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'
+                      }`}>
+                        {url.isExpired ? EXPIRED_LABELS[url.expiredReason ?? 'time'] : isScheduled(url) ? 'Scheduled' : 'Active'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => setSelectedUrl(url)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          View Details
+                        </button>
+                        <button
+                          onClick={() => handleDeleteUrls([url.id])}
+                          title="Move to trash"
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
 
       {/* URL Details Modal */}
@@ -249,9 +511,52 @@ const Statistics: React.FC = () => {
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Expires</label>
                   <p className="mt-1 text-sm text-gray-900">
-                    {format(selectedUrl.expiresAt, 'MMM dd, yyyy HH:mm:ss')}
+                    {selectedUrl.expiresAt ? format(selectedUrl.expiresAt, 'MMM dd, yyyy HH:mm:ss') : 'Never'}
+                    {selectedUrl.isExpired && ` (${EXPIRED_LABELS[selectedUrl.expiredReason ?? 'time']})`}
                   </p>
                 </div>
+                {selectedUrl.activatesAt && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Goes Live</label>
+                    <p className="mt-1 text-sm text-gray-900">
+                      {format(selectedUrl.activatesAt, 'MMM dd, yyyy HH:mm:ss')}
+                      {isScheduled(selectedUrl) && ' (scheduled)'}
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Uses Left</label>
+                  <p className="mt-1 text-sm text-gray-900">{formatUsesLeft(selectedUrl)}</p>
+                </div>
+                {selectedUrl.utm && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">UTM Parameters</label>
+                    <p className="mt-1 text-sm text-gray-900">{formatUTM(selectedUrl.utm)}</p>
+                  </div>
+                )}
+              </div>
+
+              <URLEditor
+                key={`${selectedUrl.id}-${selectedUrl.revisions.length}`}
+                url={selectedUrl}
+                editorName={editorName}
+                onEditorNameChange={setEditorName}
+                onSave={(update) => handleUpdateUrl(selectedUrl.id, update)}
+              />
+
+              <RevisionHistory
+                revisions={selectedUrl.revisions}
+                onRevert={(revisionId) => handleRevertRevision(selectedUrl.id, revisionId)}
+              />
+
+              {selectedUrl.variants.length > 0 && <VariantStats url={selectedUrl} />}
+
+              <div>
+                <h4 className="flex items-center space-x-2 text-lg font-medium text-gray-900 mb-4">
+                  <QrCode className="w-5 h-5" />
+                  <span>QR Code</span>
+                </h4>
+                <QRCodePanel url={selectedUrl} />
               </div>
 
               {/* Click Details */}
@@ -277,6 +582,9 @@ const Statistics: React.FC = () => {
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                             User Agent
                           </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Routed By
+                          </th>
                         </tr>
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
@@ -297,6 +605,9 @@ const Statistics: React.FC = () => {
                             <td className="px-6 py-4 text-sm text-gray-900 max-w-xs truncate">
                               {click.userAgent}
                             </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {formatRouting(selectedUrl, click)}
+                            </td>
                           </tr>
                         ))}
                       </tbody>
@@ -0,0 +1,29 @@
+import { ShortenedURL } from '../types';
+import { DEFAULT_REDIRECT_BEHAVIOR } from '../utils/redirectBehavior';
+
+/** A stored link with every required field, for tests that only care about a few of them. */
+export function makeLink(fields: Partial<ShortenedURL> = {}): ShortenedURL {
+  const createdAt = new Date('2024-01-01T00:00:00.000Z');
+  return {
+    id: 'link-1',
+    originalUrl: 'https://example.com/',
+    shortCode: 'abc123',
+    shortUrl: 'https://sho.rt/s/abc123',
+    domainId: 'default',
+    validityMinutes: null,
+    createdAt,
+    updatedAt: createdAt,
+    expiresAt: null,
+    clicks: [],
+    isExpired: false,
+    redirectType: 302,
+    redirectBehavior: DEFAULT_REDIRECT_BEHAVIOR,
+    revisions: [],
+    tags: [],
+    hasPassword: false,
+    routingRules: [],
+    variants: [],
+    passthrough: false,
+    ...fields
+  };
+}
@@ -1,13 +1,153 @@
+import type { StoredEnvelope } from '../utils/schema';
+
+/** HTTP status the API server answers with when redirecting a short link. */
+export type RedirectStatusCode = 301 | 302 | 307;
+
 export interface ShortenedURL {
   id: string;
   originalUrl: string;
   shortCode: string;
+  /** Built from the link's domain each time the link is read, so it follows the domain if that moves. */
   shortUrl: string;
-  validityMinutes: number;
+  /** The branded domain the link is served on; shortcodes are unique per domain. */
+  domainId: string;
+  /** Minutes between going live and expiring; null for links that never expire. */
+  validityMinutes: number | null;
   createdAt: Date;
-  expiresAt: Date;
+  /** Last change to the link's own settings (edits, trash, restore); used to merge copies from other tabs. */
+  updatedAt: Date;
+  /** null means the link never expires. */
+  expiresAt: Date | null;
+  /** The link only redirects from this time on; live immediately when unset. */
+  activatesAt?: Date;
+  /** Set while the link sits in the trash. Its shortcode stays reserved until it is purged. */
+  deletedAt?: Date;
   clicks: ClickData[];
   isExpired: boolean;
+  /** Why the link stopped working; cleared if it becomes active again. */
+  expiredReason?: ExpiredReason;
+  /** The link expires once it has this many clicks; 1 makes it single-use. Unlimited when unset. */
+  maxClicks?: number;
+  redirectType: RedirectStatusCode;
+  /** Whether visitors go straight to the destination or see an interstitial page first. */
+  redirectBehavior: RedirectBehavior;
+  revisions: URLRevision[];
+  tags: string[];
+  /** Optional folder or campaign the link is grouped under. */
+  folder?: string;
+  /** Visitors must enter a password before being redirected. */
+  hasPassword: boolean;
+  /** Hash of that password. Kept in storage only: API responses and backups leave it out unless asked for. */
+  password?: PasswordHash;
+  /** Checked in order; the first matching rule's destination replaces `originalUrl`. */
+  routingRules: RoutingRule[];
+  /** When set, visitors no routing rule matched are split across these by weight instead of going to `originalUrl`. */
+  variants: SplitVariant[];
+  /** Added to the destination as `utm_*` query parameters on every redirect. */
+  utm?: UTMParams;
+  /** Carry the short link's own query parameters and `#fragment` over to the destination. */
+  passthrough: boolean;
+  /** Where visitors are sent once the link has expired, instead of being told it expired. */
+  fallbackUrl?: string;
+}
+
+/**
+ * `instant` redirects straight away, `countdown` shows an interstitial page
+ * that moves on by itself and `confirm` waits for the visitor to click through.
+ */
+export type RedirectMode = 'instant' | 'countdown' | 'confirm';
+
+export interface RedirectBehavior {
+  mode: RedirectMode;
+  /** How long the `countdown` page waits before redirecting. */
+  countdownSeconds: number;
+  /** Replace the interstitial page's default heading and text. */
+  title?: string;
+  description?: string;
+}
+
+export interface UTMParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+export interface SplitVariant {
+  id: string;
+  destination: string;
+  /** Relative share of traffic, e.g. 70 and 30. */
+  weight: number;
+  label?: string;
+}
+
+export type RoutingPlatform = 'ios' | 'android' | 'windows' | 'macos' | 'linux' | 'mobile' | 'desktop';
+
+/** Sends matching visitors to another destination. Conditions left unset match everyone; all set conditions must match. */
+export interface RoutingRule {
+  id: string;
+  destination: string;
+  /** Matches when the visitor is on any of these. */
+  platforms?: RoutingPlatform[];
+  /** Language tags such as `en` or `pt-BR`; `en` also matches `en-US`. */
+  languages?: string[];
+  /** `HH:mm` in the visitor's time zone; wraps past midnight when `from` is later than `to`. */
+  timeRange?: { from: string; to: string };
+}
+
+/** `manual` means the owner expired the link early, e.g. by moving its expiry into the past. */
+export type ExpiredReason = 'time' | 'clicks' | 'manual';
+
+/** Salted PBKDF2 digest of a link password; the password itself is never stored. */
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  /** Base64 */
+  salt: string;
+  /** Base64 */
+  hash: string;
+}
+
+export type EditableURLField = 'originalUrl' | 'expiresAt' | 'activatesAt' | 'shortCode' | 'tags' | 'folder' | 'maxClicks' | 'routingRules' | 'variants' | 'utm' | 'passthrough' | 'redirectBehavior' | 'fallbackUrl';
+
+export interface URLRevisionChange {
+  field: EditableURLField;
+  /** Previous and new values; dates are stored as ISO strings, tags comma-separated, routing rules, variants, UTM fields and redirect behaviour as JSON, flags as 'true'/'false', and no click limit, expiry, activation time, UTM fields or fallback as ''. */
+  from: string;
+  to: string;
+}
+
+export interface URLRevision {
+  id: string;
+  timestamp: Date;
+  changedBy: string;
+  changes: URLRevisionChange[];
+  /** Set when this revision rolled back an earlier one. */
+  revertOf?: string;
+}
+
+export interface URLUpdate {
+  originalUrl?: string;
+  /** null makes the link never expire. */
+  expiresAt?: Date | null;
+  /** null makes the link live immediately. */
+  activatesAt?: Date | null;
+  shortCode?: string;
+  tags?: string[];
+  /** An empty string removes the link from its folder. */
+  folder?: string;
+  /** null removes the click limit. */
+  maxClicks?: number | null;
+  routingRules?: RoutingRule[];
+  /** An empty list turns the split off. */
+  variants?: SplitVariant[];
+  /** null removes the UTM parameters. */
+  utm?: UTMParams | null;
+  passthrough?: boolean;
+  redirectBehavior?: RedirectBehavior;
+  /** null removes the fallback. */
+  fallbackUrl?: string | null;
 }
 
 export interface ClickData {
@@ -17,12 +157,171 @@ export interface ClickData {
   location: string;
   userAgent: string;
   ipAddress: string;
+  /** Id of the routing rule that chose the destination; unset when `originalUrl` was used. */
+  matchedRule?: string;
+  /** Id of the split variant the visitor was sent to. */
+  variantId?: string;
+}
+
+/** Request details supplied by whoever records the click (e.g. the API server). */
+export interface ClickContext {
+  userAgent?: string;
+  ipAddress?: string;
+  location?: string;
+  /** Preferred language and IANA time zone, used to match routing rules. */
+  language?: string;
+  timeZone?: string;
+  /** Stable per-visitor id that keeps returning visitors on the same split variant. */
+  visitorId?: string;
 }
 
 export interface URLFormData {
   originalUrl: string;
-  validityMinutes: number;
+  expiryMode: ExpiryMode;
+  /** Used when expiryMode is 'duration' */
+  validityAmount: number;
+  validityUnit: ValidityUnit;
+  /** datetime-local value, used when expiryMode is 'date' */
+  expiresAt: string;
+  /** datetime-local value; empty to go live immediately */
+  activatesAt: string;
   customShortcode: string;
+  redirectType: RedirectStatusCode;
+  redirectBehavior: RedirectBehavior;
+  /** Comma-separated */
+  tags: string;
+  folder: string;
+  /** Empty for no password */
+  password: string;
+  /** 0 for unlimited */
+  maxClicks: number;
+  routingRules: RoutingRule[];
+  variants: SplitVariant[];
+  utm: UTMParams;
+  passthrough: boolean;
+  stripTracking: boolean;
+  /** What to do when the destination is already shortened by an active link. */
+  onDuplicate: DuplicateAction;
+  domainId: string;
+  /** Empty for no fallback. */
+  fallbackUrl: string;
+}
+
+/**
+ * When an active link already points at the same (normalized) destination:
+ * `reuse` returns it unchanged, `extend` returns it with its expiry moved out
+ * to what the new link would have had, and `create` makes a new link anyway.
+ */
+export type DuplicateAction = 'reuse' | 'extend' | 'create';
+
+export type ExpiryMode = 'duration' | 'date' | 'never';
+
+export type ValidityUnit = 'minutes' | 'hours' | 'days';
+
+export interface CreateURLOptions {
+  redirectType?: RedirectStatusCode;
+  /** Defaults to an instant redirect. */
+  redirectBehavior?: RedirectBehavior;
+  tags?: string[];
+  folder?: string;
+  password?: string;
+  maxClicks?: number;
+  activatesAt?: Date;
+  /** Absolute expiry that overrides the validity minutes; null for a link that never expires. */
+  expiresAt?: Date | null;
+  routingRules?: RoutingRule[];
+  variants?: SplitVariant[];
+  utm?: UTMParams;
+  passthrough?: boolean;
+  /** Remove `utm_*` and click-id parameters (fbclid, gclid, …) from the destination. */
+  stripTracking?: boolean;
+  /** Defaults to `create`. Ignored when a custom shortcode is given. */
+  onDuplicate?: DuplicateAction;
+  /** Branded domain to serve the link on; the default domain when unset. */
+  domainId?: string;
+  fallbackUrl?: string;
+}
+
+/**
+ * `locked` links need `unlockShortCode` with the right password and `scheduled` links are not live yet;
+ * the destination of both is withheld.
+ */
+export type LinkStatus = 'active' | 'expired' | 'notfound' | 'locked' | 'scheduled';
+
+export interface LinkResolution {
+  status: LinkStatus;
+  url: ShortenedURL | null;
+  /** When a scheduled link goes live. */
+  activatesAt?: Date;
+  /** Where to send the visitor instead: an expired link's own fallback, or the fallback for unknown shortcodes. */
+  fallbackUrl?: string;
+}
+
+export interface ShortcodeAvailability {
+  available: boolean;
+  /** Why the shortcode can't be used: a policy rule, or that it is taken. */
+  reason?: string;
+  /** Free alternatives, offered when the shortcode is taken. */
+  suggestions: string[];
+}
+
+export interface UnlockResult {
+  status: 'unlocked' | 'denied' | 'blocked' | 'expired' | 'notfound';
+  /** Only set once unlocked. */
+  url: ShortenedURL | null;
+  /** Attempts left before the visitor is blocked, after a wrong password. */
+  attemptsLeft?: number;
+  /** When a blocked visitor may try again. */
+  retryAt?: Date;
+}
+
+/**
+ * How generated shortcodes are made. `random` is unguessable, `sequential`
+ * counts up so codes stay short, and `hash` derives the code from the
+ * destination so the same URL tends to get the same code.
+ */
+export type ShortcodeStrategy = 'random' | 'sequential' | 'hash';
+
+/** `unambiguous` leaves out characters that are easy to misread, like 0/O and 1/l/I. */
+export type ShortcodeAlphabet = 'base62' | 'lowercase' | 'unambiguous';
+
+export interface ShortcodeOptions {
+  strategy: ShortcodeStrategy;
+  /** Starting length; generated codes get longer as the shorter ones run out. */
+  length: number;
+  alphabet: ShortcodeAlphabet;
+  /** Treat `Promo` and `promo` as the same shortcode. */
+  caseInsensitive: boolean;
+}
+
+/** Which destinations links may point to. */
+export interface DestinationPolicy {
+  /** URL schemes without the colon, e.g. `https`. */
+  allowedSchemes: string[];
+  /** When not empty, only these domains (and their subdomains) are allowed. */
+  allowedDomains: string[];
+  /** Domains (and their subdomains) that are never allowed. */
+  blockedDomains: string[];
+}
+
+/** A host and path short links are served under, e.g. `https://go.acme.com` and `/s/`. */
+export interface BrandedDomain {
+  id: string;
+  /** Scheme and host without a trailing slash; empty for wherever the app is served from. */
+  origin: string;
+  /** Path in front of the shortcode, starting and ending with `/`. */
+  pathPrefix: string;
+}
+
+/** User preferences persisted in this browser. */
+export interface AppSettings {
+  trashRetentionDays: number;
+  shortcodes: ShortcodeOptions;
+  destinations: DestinationPolicy;
+  /** Branded domains links can be served on besides the app's own. */
+  domains: BrandedDomain[];
+  /** Where visitors of unknown shortcodes are sent; empty to show the not-found page. */
+  notFoundFallbackUrl: string;
 }
 
 export interface LogEvent {
@@ -32,4 +331,58 @@ export interface LogEvent {
   message: string;
   context?: any;
   component?: string;
-}
\ No newline at end of file
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreReport {
+  /** Shortcodes restored unchanged. */
+  imported: string[];
+  skipped: { shortCode: string; reason: string }[];
+  /** Links restored under a new shortcode because theirs was taken. */
+  renamed: { from: string; to: string }[];
+}
+
+/**
+ * Operations the UI needs from a link store. Implemented locally by
+ * URLShortenerService and remotely by URLShortenerApiClient.
+ */
+export interface URLShortenerBackend {
+  whenReady(): Promise<void>;
+  subscribe(listener: (urls: ShortenedURL[]) => void): () => void;
+  createShortenedURL(originalUrl: string, validityMinutes?: number, customShortcode?: string, options?: CreateURLOptions): Promise<ShortenedURL>;
+  /** Returns why `createShortenedURL` would reject these arguments, or null. */
+  validateNewURL(originalUrl: string, validityMinutes?: number, customShortcode?: string, options?: CreateURLOptions): Promise<string | null>;
+  /** The domains links can be served on, the default one first. */
+  getDomains(): Promise<BrandedDomain[]>;
+  /**
+   * Checks whether a custom shortcode can be used on a domain, treating `batch`
+   * (codes chosen for other links on that domain being created alongside it)
+   * as taken too. Suggestions are based on `originalUrl`'s domain and path.
+   */
+  checkShortcode(shortCode: string, originalUrl?: string, batch?: string[], domainId?: string): Promise<ShortcodeAvailability>;
+  /** The newest active link on a domain whose destination is the same as `originalUrl` once both are normalized. */
+  findDuplicate(originalUrl: string, stripTracking?: boolean, domainId?: string): Promise<ShortenedURL | null>;
+  /** Returns why a link (with `shortCode` on `domainId`, if known) may not point at `destination`, or null. */
+  checkDestination(destination: string, shortCode?: string, domainId?: string): Promise<string | null>;
+  /** Shortcode lookups default to the default domain when no `domainId` is given. */
+  getURLByShortCode(shortCode: string, domainId?: string): Promise<ShortenedURL | null>;
+  resolveShortCode(shortCode: string, domainId?: string): Promise<LinkResolution>;
+  recordClick(shortCode: string, source?: string, context?: ClickContext, domainId?: string): Promise<boolean>;
+  /** Checks the password of a protected link and records the click when it matches. */
+  unlockShortCode(shortCode: string, password: string, source?: string, context?: ClickContext, domainId?: string): Promise<UnlockResult>;
+  getAllURLs(): Promise<ShortenedURL[]>;
+  getClicks(id: string): Promise<ClickData[] | null>;
+  updateURL(id: string, update: URLUpdate, changedBy?: string): Promise<ShortenedURL>;
+  revertRevision(id: string, revisionId: string, changedBy?: string): Promise<ShortenedURL>;
+  /** Moves a link to the trash. */
+  deleteURL(id: string): Promise<boolean>;
+  deleteURLs(ids: string[]): Promise<number>;
+  getTrashedURLs(): Promise<ShortenedURL[]>;
+  restoreURLs(ids: string[]): Promise<number>;
+  /** Permanently removes trashed links and their click history. */
+  purgeURLs(ids: string[]): Promise<number>;
+  /** All links, including trashed ones, in the versioned storage envelope; password hashes only when asked for. */
+  exportLinks(includePasswords?: boolean): Promise<StoredEnvelope>;
+  importLinks(envelope: unknown, mode: RestoreMode): Promise<RestoreReport>;
+}
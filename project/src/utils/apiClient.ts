@@ -0,0 +1,277 @@
+import {
+  BrandedDomain,
+  ClickContext,
+  ClickData,
+  CreateURLOptions,
+  LinkResolution,
+  LinkStatus,
+  RestoreMode,
+  RestoreReport,
+  ShortcodeAvailability,
+  ShortenedURL,
+  URLShortenerBackend,
+  URLUpdate,
+  UnlockResult
+} from '../types';
+import { logger } from './logger';
+import { RawRecord, StoredEnvelope } from './schema';
+import { reviveClick, reviveURL } from './urlShortener';
+
+const POLL_INTERVAL_MS = 10000;
+
+type URLListener = (urls: ShortenedURL[]) => void;
+
+/** Shortcode lookups without a domain go to the server's default domain. */
+const domainQuery = (domainId?: string) => domainId ? `?domainId=${encodeURIComponent(domainId)}` : '';
+
+/**
+ * Talks to the standalone API server (see `server/`) instead of browser
+ * storage. Other clients' changes are picked up by polling while something
+ * is subscribed.
+ */
+export class URLShortenerApiClient implements URLShortenerBackend {
+  private apiUrl: string;
+  private listeners: URLListener[] = [];
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(apiUrl: string) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+    logger.info('URLShortenerApiClient initialized', { apiUrl: this.apiUrl }, 'URLShortenerApiClient');
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T | null> {
+    const response = await fetch(this.apiUrl + path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers }
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const body = response.status === 204 ? null : await response.json();
+    if (!response.ok) {
+      const message = body?.error ?? `Request failed with status ${response.status}`;
+      logger.error('API request failed', { path, status: response.status, message }, 'URLShortenerApiClient');
+      throw new Error(message);
+    }
+    return body as T;
+  }
+
+  async whenReady(): Promise<void> {}
+
+  subscribe(listener: URLListener) {
+    this.listeners.push(listener);
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => this.refresh(), POLL_INTERVAL_MS);
+    }
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+      if (this.listeners.length === 0 && this.pollTimer) {
+        clearInterval(this.pollTimer);
+        this.pollTimer = null;
+      }
+    };
+  }
+
+  private async refresh() {
+    if (this.listeners.length === 0) {
+      return;
+    }
+    try {
+      const urls = await this.getAllURLs();
+      this.listeners.forEach(listener => listener(urls));
+    } catch (error) {
+      logger.warn('Failed to refresh URLs from API', error, 'URLShortenerApiClient');
+    }
+  }
+
+  async createShortenedURL(
+    originalUrl: string,
+    validityMinutes: number = 30,
+    customShortcode?: string,
+    options: CreateURLOptions = {}
+  ): Promise<ShortenedURL> {
+    const body = await this.request<RawRecord>('/api/urls', {
+      method: 'POST',
+      body: JSON.stringify({ originalUrl, validityMinutes, customShortcode, ...options })
+    });
+    await this.refresh();
+    return reviveURL(body!);
+  }
+
+  async validateNewURL(
+    originalUrl: string,
+    validityMinutes: number = 30,
+    customShortcode?: string,
+    options: CreateURLOptions = {}
+  ): Promise<string | null> {
+    const body = await this.request<{ error: string | null }>('/api/urls/validate', {
+      method: 'POST',
+      body: JSON.stringify({ originalUrl, validityMinutes, customShortcode, ...options })
+    });
+    return body?.error ?? null;
+  }
+
+  async getDomains(): Promise<BrandedDomain[]> {
+    const body = await this.request<{ domains: BrandedDomain[] }>('/api/domains');
+    return body?.domains ?? [];
+  }
+
+  async findDuplicate(originalUrl: string, stripTracking = false, domainId?: string): Promise<ShortenedURL | null> {
+    const body = await this.request<{ url: RawRecord | null }>('/api/urls/duplicate', {
+      method: 'POST',
+      body: JSON.stringify({ originalUrl, stripTracking, domainId })
+    });
+    return body?.url ? reviveURL(body.url) : null;
+  }
+
+  async checkDestination(destination: string, shortCode?: string, domainId?: string): Promise<string | null> {
+    const body = await this.request<{ error: string | null }>('/api/destinations/check', {
+      method: 'POST',
+      body: JSON.stringify({ destination, shortCode, domainId })
+    });
+    return body?.error ?? null;
+  }
+
+  async checkShortcode(shortCode: string, originalUrl?: string, batch: string[] = [], domainId?: string): Promise<ShortcodeAvailability> {
+    const body = await this.request<ShortcodeAvailability>('/api/shortcodes/check', {
+      method: 'POST',
+      body: JSON.stringify({ shortCode, originalUrl, batch, domainId })
+    });
+    return body!;
+  }
+
+  async getURLByShortCode(shortCode: string, domainId?: string): Promise<ShortenedURL | null> {
+    const body = await this.request<RawRecord>(`/api/urls/${encodeURIComponent(shortCode)}${domainQuery(domainId)}`);
+    return body ? reviveURL(body) : null;
+  }
+
+  async resolveShortCode(shortCode: string, domainId?: string): Promise<LinkResolution> {
+    const body = await this.request<{ status: LinkStatus; url: RawRecord | null; activatesAt?: string; fallbackUrl?: string }>(
+      `/api/urls/${encodeURIComponent(shortCode)}/resolve${domainQuery(domainId)}`
+    );
+    if (!body) {
+      return { status: 'notfound', url: null };
+    }
+    return {
+      status: body.status,
+      url: body.url ? reviveURL(body.url) : null,
+      activatesAt: body.activatesAt ? new Date(body.activatesAt) : undefined,
+      fallbackUrl: body.fallbackUrl
+    };
+  }
+
+  async recordClick(shortCode: string, source: string = 'direct', context: ClickContext = {}, domainId?: string): Promise<boolean> {
+    // The server fills in the real IP address and user agent from the request; the rest picks the routing rule and split variant
+    const body = await this.request<RawRecord>(`/api/urls/${encodeURIComponent(shortCode)}/clicks`, {
+      method: 'POST',
+      body: JSON.stringify({ source, ...context, domainId })
+    });
+    return body !== null;
+  }
+
+  async unlockShortCode(
+    shortCode: string,
+    password: string,
+    source: string = 'direct',
+    context: ClickContext = {},
+    domainId?: string
+  ): Promise<UnlockResult> {
+    const body = await this.request<{ status: UnlockResult['status']; url: RawRecord | null; attemptsLeft?: number; retryAt?: string }>(
+      `/api/urls/${encodeURIComponent(shortCode)}/unlock`,
+      { method: 'POST', body: JSON.stringify({ password, source, ...context, domainId }) }
+    );
+    if (!body) {
+      return { status: 'notfound', url: null };
+    }
+    return {
+      status: body.status,
+      url: body.url ? reviveURL(body.url) : null,
+      attemptsLeft: body.attemptsLeft,
+      retryAt: body.retryAt ? new Date(body.retryAt) : undefined
+    };
+  }
+
+  async getAllURLs(): Promise<ShortenedURL[]> {
+    const body = await this.request<RawRecord[]>('/api/urls');
+    return (body ?? []).map(reviveURL);
+  }
+
+  async getClicks(id: string): Promise<ClickData[] | null> {
+    const body = await this.request<RawRecord[]>(`/api/urls/${encodeURIComponent(id)}/clicks`);
+    return body ? body.map(reviveClick) : null;
+  }
+
+  async updateURL(id: string, update: URLUpdate, changedBy?: string): Promise<ShortenedURL> {
+    const body = await this.request<RawRecord>(`/api/urls/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ ...update, changedBy })
+    });
+    if (!body) {
+      throw new Error('URL not found');
+    }
+    await this.refresh();
+    return reviveURL(body);
+  }
+
+  async revertRevision(id: string, revisionId: string, changedBy?: string): Promise<ShortenedURL> {
+    const body = await this.request<RawRecord>(
+      `/api/urls/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revisionId)}/revert`,
+      { method: 'POST', body: JSON.stringify({ changedBy }) }
+    );
+    if (!body) {
+      throw new Error('Revision not found');
+    }
+    await this.refresh();
+    return reviveURL(body);
+  }
+
+  async deleteURL(id: string): Promise<boolean> {
+    const response = await fetch(`${this.apiUrl}/api/urls/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (response.ok) {
+      await this.refresh();
+    }
+    return response.ok;
+  }
+
+  private async trashAction(action: string, ids: string[]): Promise<number> {
+    const body = await this.request<{ count: number }>(`/api/trash${action}`, {
+      method: 'POST',
+      body: JSON.stringify({ ids })
+    });
+    await this.refresh();
+    return body?.count ?? 0;
+  }
+
+  deleteURLs(ids: string[]): Promise<number> {
+    return this.trashAction('', ids);
+  }
+
+  async getTrashedURLs(): Promise<ShortenedURL[]> {
+    const body = await this.request<RawRecord[]>('/api/trash');
+    return (body ?? []).map(reviveURL);
+  }
+
+  restoreURLs(ids: string[]): Promise<number> {
+    return this.trashAction('/restore', ids);
+  }
+
+  purgeURLs(ids: string[]): Promise<number> {
+    return this.trashAction('/purge', ids);
+  }
+
+  async exportLinks(includePasswords = false): Promise<StoredEnvelope> {
+    const body = await this.request<StoredEnvelope>(`/api/backup${includePasswords ? '?includePasswords=true' : ''}`);
+    return body!;
+  }
+
+  async importLinks(envelope: unknown, mode: RestoreMode): Promise<RestoreReport> {
+    const body = await this.request<RestoreReport>('/api/backup/restore', {
+      method: 'POST',
+      body: JSON.stringify({ links: envelope, mode })
+    });
+    await this.refresh();
+    return body!;
+  }
+}
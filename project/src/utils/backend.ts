@@ -0,0 +1,32 @@
+import { URLShortenerBackend } from '../types';
+import { URLShortenerApiClient } from './apiClient';
+import { settingsStore } from './settings';
+import { URLShortenerService } from './urlShortener';
+
+const apiUrl = import.meta.env.VITE_API_URL;
+
+/** True when links live on the API server, whose own configuration applies. */
+export const usesApiServer = Boolean(apiUrl);
+
+const createBackend = (): URLShortenerBackend => {
+  if (apiUrl) {
+    return new URLShortenerApiClient(apiUrl);
+  }
+
+  const { trashRetentionDays, shortcodes, destinations, domains, notFoundFallbackUrl } = settingsStore.get();
+  const service = new URLShortenerService({ trashRetentionDays, shortcodes, destinations, domains, notFoundFallbackUrl });
+  settingsStore.subscribe(settings => service.configure({
+    trashRetentionDays: settings.trashRetentionDays,
+    shortcodes: settings.shortcodes,
+    destinations: settings.destinations,
+    domains: settings.domains,
+    notFoundFallbackUrl: settings.notFoundFallbackUrl
+  }));
+  return service;
+};
+
+/**
+ * The link store used by the app: the API server when `VITE_API_URL` is set,
+ * otherwise a URLShortenerService persisting in this browser.
+ */
+export const urlShortenerService = createBackend();
@@ -0,0 +1,67 @@
+import { RestoreMode, RestoreReport } from '../types';
+import { StoredEnvelope } from './schema';
+import { urlShortenerService } from './backend';
+import { logger } from './logger';
+
+const BACKUP_FORMAT = 'url-shortener-backup';
+const BACKUP_VERSION = 1;
+
+/**
+ * A backup file. Links and logs keep their storage envelopes so restoring an
+ * older backup runs the same migrations as loading old browser storage.
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  links: StoredEnvelope;
+  logs?: StoredEnvelope;
+}
+
+export interface BackupRestoreResult {
+  links: RestoreReport;
+  /** Number of log entries restored, when the backup had logs and they were requested. */
+  logs?: number;
+}
+
+export async function createBackup(includeLogs: boolean, includePasswords = false): Promise<BackupFile> {
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    links: await urlShortenerService.exportLinks(includePasswords)
+  };
+  if (includeLogs) {
+    backup.logs = logger.exportLogs();
+  }
+  logger.info('Backup created', { links: backup.links.records.length, logs: backup.logs?.records.length }, 'Backup');
+  return backup;
+}
+
+export function parseBackup(text: string): BackupFile {
+  let parsed: Partial<BackupFile>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (parsed?.format !== BACKUP_FORMAT || !parsed.links || !Array.isArray(parsed.links.records)) {
+    throw new Error('File is not a URL shortener backup');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${parsed.version} is newer than this app supports`);
+  }
+  return parsed as BackupFile;
+}
+
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode, includeLogs: boolean): Promise<BackupRestoreResult> {
+  logger.info('Restoring backup', { mode, exportedAt: backup.exportedAt, includeLogs }, 'Backup');
+  const result: BackupRestoreResult = {
+    links: await urlShortenerService.importLinks(backup.links, mode)
+  };
+  if (includeLogs && backup.logs) {
+    result.logs = logger.importLogs(backup.logs, mode);
+  }
+  return result;
+}
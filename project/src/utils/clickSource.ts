@@ -0,0 +1,39 @@
+/** Query parameter on a short link that says where the visit came from, e.g. `?src=qr` in printed QR codes. */
+export const SOURCE_PARAM = 'src';
+
+/** Click source recorded for scans of a link's QR code. */
+export const QR_SOURCE = 'qr';
+
+const TAGGED_SOURCES = [QR_SOURCE];
+
+/**
+ * The short URL with a source tag, for encoding in a QR code. Relative short
+ * URLs are resolved against the current page; ones that still can't be
+ * parsed come back untagged.
+ */
+export function tagShortUrl(shortUrl: string, source: string): string {
+  let url: URL;
+  try {
+    url = new URL(shortUrl, typeof window !== 'undefined' ? window.location.origin : undefined);
+  } catch {
+    return shortUrl;
+  }
+  url.searchParams.set(SOURCE_PARAM, source);
+  return url.toString();
+}
+
+/**
+ * Takes a known source tag out of a short link's query string (with or
+ * without the leading `?`), so it is recorded as the click source instead of
+ * being passed through to the destination. Other values of the parameter are
+ * left alone, since they may belong to the destination.
+ */
+export function takeSourceTag(search: string): { source: string | null; search: string } {
+  const params = new URLSearchParams(search);
+  const source = params.get(SOURCE_PARAM);
+  if (!source || !TAGGED_SOURCES.includes(source)) {
+    return { source: null, search: params.toString() };
+  }
+  params.delete(SOURCE_PARAM);
+  return { source, search: params.toString() };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ShortLinkResolver, findRedirectLoop } from './destinationPolicy';
+
+const PREFIX = 'https://sho.rt/s/';
+
+/** Resolver over links on one domain, given as shortcode → destinations. */
+const resolverFor = (links: Record<string, string[]>): ShortLinkResolver => ({
+  match: href => href.startsWith(PREFIX) ? { domainId: 'default', shortCode: href.slice(PREFIX.length) } : null,
+  canonical: shortCode => shortCode.toLowerCase(),
+  lookup: ({ shortCode }) => links[shortCode.toLowerCase()] ?? null
+});
+
+describe('findRedirectLoop', () => {
+  it('accepts destinations that aren\'t short links or end outside them', () => {
+    const resolver = resolverFor({ a: [`${PREFIX}b`], b: ['https://example.com/'] });
+
+    expect(findRedirectLoop('https://example.com/', resolver, { domainId: 'default', shortCode: 'new' })).toBeNull();
+    expect(findRedirectLoop(`${PREFIX}a`, resolver, { domainId: 'default', shortCode: 'new' })).toBeNull();
+    expect(findRedirectLoop(`${PREFIX}missing`, resolver)).toBeNull();
+    expect(findRedirectLoop('not a url', resolver)).toBeNull();
+  });
+
+  it('rejects a link that points at itself, in any case', () => {
+    expect(findRedirectLoop(`${PREFIX}NEW`, resolverFor({}), { domainId: 'default', shortCode: 'new' }))
+      .toBe('Destination loops back through the short link "NEW"');
+  });
+
+  it('rejects a chain that leads back to the link being saved', () => {
+    const resolver = resolverFor({ a: [`${PREFIX}b`], b: [`${PREFIX}c`] });
+
+    expect(findRedirectLoop(`${PREFIX}a`, resolver, { domainId: 'default', shortCode: 'c' }))
+      .toBe('Destination loops back through the short link "c"');
+  });
+
+  it('rejects a chain that goes round in circles elsewhere', () => {
+    const resolver = resolverFor({ a: [`${PREFIX}b`], b: [`${PREFIX}a`] });
+
+    expect(findRedirectLoop(`${PREFIX}a`, resolver)).toBe('Destination loops back through the short link "a"');
+  });
+
+  it('follows every destination of a link, not just the first', () => {
+    const resolver = resolverFor({ a: ['https://example.com/', `${PREFIX}b`], b: ['https://example.org/', `${PREFIX}new`] });
+
+    expect(findRedirectLoop(`${PREFIX}a`, resolver, { domainId: 'default', shortCode: 'new' }))
+      .toBe('Destination loops back through the short link "new"');
+  });
+
+  it('rejects chains longer than ten links', () => {
+    const links = Object.fromEntries(Array.from({ length: 12 }, (_, i) => [`l${i}`, [`${PREFIX}l${i + 1}`]]));
+
+    expect(findRedirectLoop(`${PREFIX}l0`, resolverFor(links))).toBe('Destination passes through more than 10 short links');
+    expect(findRedirectLoop(`${PREFIX}l3`, resolverFor(links))).toBeNull();
+  });
+});
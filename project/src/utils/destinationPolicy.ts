@@ -0,0 +1,126 @@
+import { BrandedDomain, DestinationPolicy } from '../types';
+import { ShortLinkAddress, matchShortLink } from './domains';
+
+export const DEFAULT_DESTINATION_POLICY: DestinationPolicy = {
+  allowedSchemes: ['http', 'https'],
+  allowedDomains: [],
+  blockedDomains: []
+};
+
+/** Schemes that run code or read local files when navigated to; never followed, whatever the policy says. */
+const UNSAFE_SCHEMES = ['javascript', 'data', 'vbscript', 'file', 'blob'];
+
+/** Short links a destination may pass through before the chain counts as too long. */
+const MAX_CHAIN_LENGTH = 10;
+
+/** Splits a comma-, space- or line-separated list into bare lowercase domains. */
+export function parseDomainList(input: string): string[] {
+  const domains = input
+    .split(/[\s,]+/)
+    .map(entry => entry.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^\*\./, '').replace(/[/:].*$/, ''))
+    .filter(Boolean);
+  return [...new Set(domains)];
+}
+
+/** True for the domain itself and any subdomain of it. */
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/** True when navigating to `destination` could run script or expose local files. */
+export function isUnsafeDestination(destination: string): boolean {
+  try {
+    return UNSAFE_SCHEMES.includes(new URL(destination).protocol.replace(/:$/, ''));
+  } catch {
+    return true;
+  }
+}
+
+/** Returns why a destination breaks the policy's scheme and domain rules, or null. */
+export function findDestinationPolicyError(destination: string, policy: DestinationPolicy): string | null {
+  let url: URL;
+  try {
+    url = new URL(destination);
+  } catch {
+    return 'Invalid URL format';
+  }
+
+  const scheme = url.protocol.replace(/:$/, '');
+  if (!policy.allowedSchemes.includes(scheme) || UNSAFE_SCHEMES.includes(scheme)) {
+    return `${scheme}: links can't be shortened; only ${policy.allowedSchemes.join('/')} links are allowed`;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const blocked = policy.blockedDomains.find(domain => matchesDomain(hostname, domain));
+  if (blocked) {
+    return `Links to ${blocked} are blocked`;
+  }
+  if (policy.allowedDomains.length > 0 && !policy.allowedDomains.some(domain => matchesDomain(hostname, domain))) {
+    return `${hostname} is not on the list of allowed domains`;
+  }
+  return null;
+}
+
+export interface ShortLinkResolver {
+  /** The short link a URL points at when it is one of ours, or null. */
+  match(href: string): ShortLinkAddress | null;
+  /** The form shortcodes are compared in, e.g. lowercased when case doesn't matter. */
+  canonical(shortCode: string): string;
+  /** Every destination of the link at an address, or null if there is none. */
+  lookup(address: ShortLinkAddress): string[] | null;
+}
+
+/**
+ * Follows a destination through any of our own short links it points at and
+ * returns why the chain is unacceptable: it leads back to `self` or goes round
+ * in circles, or it is too long. Null when it ends somewhere else.
+ */
+export function findRedirectLoop(destination: string, resolver: ShortLinkResolver, self?: ShortLinkAddress): string | null {
+  const key = ({ domainId, shortCode }: ShortLinkAddress) => `${domainId}/${resolver.canonical(shortCode)}`;
+  const visit = (next: string, path: string[]): string | null => {
+    let address: ShortLinkAddress | null;
+    try {
+      // Parsing normalizes case and default ports so hosts compare reliably
+      address = resolver.match(new URL(next).href);
+    } catch {
+      return null;
+    }
+    if (!address) {
+      return null;
+    }
+    // The link being saved may not exist yet, so it is compared before the lookup
+    const current = key(address);
+    if ((self && current === key(self)) || path.includes(current)) {
+      return `Destination loops back through the short link "${address.shortCode}"`;
+    }
+    const destinations = resolver.lookup(address);
+    if (!destinations) {
+      return null;
+    }
+    if (path.length >= MAX_CHAIN_LENGTH) {
+      return `Destination passes through more than ${MAX_CHAIN_LENGTH} short links`;
+    }
+    for (const linked of destinations) {
+      const problem = visit(linked, [...path, current]);
+      if (problem) {
+        return problem;
+      }
+    }
+    return null;
+  };
+  return visit(destination, []);
+}
+
+/**
+ * Returns why `fallback` can't take in visitors of unknown shortcodes, or
+ * null. Besides the policy, it can't be a short link on one of `domains`:
+ * a missing one would send visitors round in circles.
+ */
+export function findNotFoundFallbackError(fallback: string, policy: DestinationPolicy, domains: BrandedDomain[]): string | null {
+  const problem = findDestinationPolicyError(fallback, policy);
+  if (problem) {
+    return problem;
+  }
+  const { host, pathname } = new URL(fallback);
+  return matchShortLink(host, pathname, domains) ? "The fallback for missing links can't be one of your own short links" : null;
+}
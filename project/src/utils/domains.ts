@@ -0,0 +1,109 @@
+import { BrandedDomain } from '../types';
+import { RESERVED_SHORTCODES } from './shortcodePolicy';
+
+/**
+ * Where the app itself serves short links (`<origin>/s/` in the browser,
+ * `SHORT_URL_BASE` on the API server). Links made before branded domains
+ * existed, or whose domain has since been removed, belong to it.
+ */
+export const DEFAULT_DOMAIN_ID = 'default';
+
+/** A shortcode together with the domain it is served on; shortcodes are only unique per domain. */
+export interface ShortLinkAddress {
+  domainId: string;
+  shortCode: string;
+}
+
+/** `https://go.acme.com` and `/s/` become `https://go.acme.com/s/`. */
+export function domainPrefix(domain: BrandedDomain): string {
+  return domain.origin + domain.pathPrefix;
+}
+
+/** The prefix without its scheme, e.g. `go.acme.com/s/`, for pickers and lists. */
+export function formatDomain(domain: BrandedDomain): string {
+  return domainPrefix(domain).replace(/^[a-z]+:\/\//, '');
+}
+
+/**
+ * Splits a short link prefix such as `go.acme.com/s` or `https://acme.link/`
+ * into a domain (https is assumed when no scheme is given). A relative prefix
+ * like `/s/` gets an empty origin, meaning wherever the app is served from.
+ * Returns null when it isn't an http(s) URL without a query or fragment.
+ */
+export function parseDomainPrefix(input: string, id: string): BrandedDomain | null {
+  const value = input.trim();
+  if (value.startsWith('/')) {
+    return { id, origin: '', pathPrefix: value.endsWith('/') ? value : `${value}/` };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+  if (!['http:', 'https:'].includes(url.protocol) || url.search || url.hash || url.username || url.password) {
+    return null;
+  }
+  return { id, origin: url.origin, pathPrefix: url.pathname.endsWith('/') ? url.pathname : `${url.pathname}/` };
+}
+
+/** Returns why a branded domain can't serve short links, or null. */
+export function findDomainError(domain: BrandedDomain): string | null {
+  const parsed = domain.origin ? parseDomainPrefix(domainPrefix(domain), domain.id) : null;
+  if (!parsed || parsed.origin !== domain.origin || parsed.pathPrefix !== domain.pathPrefix) {
+    return 'Enter the domain short links are served on, e.g. go.example.com or https://example.link/s/';
+  }
+  // The app's own pages live under these paths on every host
+  const [firstSegment] = domain.pathPrefix.split('/').filter(Boolean);
+  if (firstSegment && firstSegment !== 's' && RESERVED_SHORTCODES.includes(firstSegment.toLowerCase())) {
+    return `"/${firstSegment}/" is used by the app and can't be a short link path`;
+  }
+  return null;
+}
+
+/** Returns why branded domains can't be used alongside the default one, or null. */
+export function findDomainListError(domains: BrandedDomain[], defaultDomain: BrandedDomain): string | null {
+  const seenIds = new Set([DEFAULT_DOMAIN_ID]);
+  const seenPrefixes = new Set([domainPrefix(defaultDomain)]);
+  for (const domain of domains) {
+    const problem = findDomainError(domain);
+    if (problem) {
+      return problem;
+    }
+    if (seenIds.has(domain.id)) {
+      return `Domain id "${domain.id}" is used twice`;
+    }
+    if (seenPrefixes.has(domainPrefix(domain))) {
+      return `${formatDomain(domain)} is already configured`;
+    }
+    seenIds.add(domain.id);
+    seenPrefixes.add(domainPrefix(domain));
+  }
+  return null;
+}
+
+/**
+ * Finds which of `domains` a short link URL belongs to by host and path and
+ * returns its shortcode. The scheme is ignored, since proxies in front of the
+ * app often terminate TLS. Null when no domain serves the URL.
+ */
+export function matchShortLink(host: string, pathname: string, domains: BrandedDomain[]): ShortLinkAddress | null {
+  const lowerHost = host.toLowerCase();
+  // The longest prefix wins, so `acme.link/s/` beats `acme.link/`
+  const candidates = domains
+    .filter(domain => domain.origin && new URL(domain.origin).host === lowerHost && pathname.startsWith(domain.pathPrefix))
+    .sort((a, b) => b.pathPrefix.length - a.pathPrefix.length);
+
+  for (const domain of candidates) {
+    const rest = pathname.slice(domain.pathPrefix.length).replace(/\/$/, '');
+    if (rest && !rest.includes('/')) {
+      try {
+        return { domainId: domain.id, shortCode: decodeURIComponent(rest) };
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
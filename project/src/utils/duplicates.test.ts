@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { makeLink } from '../test/links';
+import { findDuplicateDifferences } from './duplicates';
+
+describe('findDuplicateDifferences', () => {
+  it('finds nothing when a new link would get the same settings', () => {
+    const existing = makeLink({
+      tags: ['promo', 'spring'],
+      routingRules: [{ id: 'r1', destination: 'https://ios.example/', platforms: ['ios'] }]
+    });
+
+    expect(findDuplicateDifferences(existing, {
+      tags: ['Spring', 'promo'],
+      routingRules: [{ id: '', platforms: ['ios'], destination: 'https://ios.example/' }]
+    })).toEqual([]);
+  });
+
+  it('names each setting that differs', () => {
+    const existing = makeLink({ maxClicks: 10, folder: 'Campaigns', redirectType: 301 });
+
+    expect(findDuplicateDifferences(existing, {
+      tags: ['promo'],
+      variants: [{ id: '', destination: 'https://a.example/', weight: 1 }],
+      utm: { source: 'news' },
+      passthrough: true,
+      redirectBehavior: { mode: 'confirm', countdownSeconds: 5 },
+      fallbackUrl: 'https://fallback.example/'
+    })).toEqual(['click limit', 'tags', 'folder', 'A/B split', 'UTM parameters', 'passthrough', 'redirect type', 'redirect page', 'fallback']);
+  });
+
+  it('always counts a password as different, since hashes can\'t be compared', () => {
+    expect(findDuplicateDifferences(makeLink(), { password: 'secret' })).toEqual(['password']);
+    expect(findDuplicateDifferences(makeLink({ hasPassword: true }), {})).toEqual(['password']);
+  });
+
+  it('compares go-live times by instant', () => {
+    const activatesAt = new Date('2024-02-01T00:00:00.000Z');
+
+    expect(findDuplicateDifferences(makeLink({ activatesAt }), { activatesAt: new Date(activatesAt) })).toEqual([]);
+    expect(findDuplicateDifferences(makeLink({ activatesAt }), {})).toEqual(['go-live time']);
+  });
+});
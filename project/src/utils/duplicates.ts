@@ -0,0 +1,36 @@
+import { CreateURLOptions, ShortenedURL } from '../types';
+import { normalizeFolder, normalizeTags } from './tags';
+import { normalizeRoutingRules } from './routing';
+import { normalizeVariants } from './splitTest';
+import { normalizeUTM } from './utm';
+import { DEFAULT_REDIRECT_BEHAVIOR, formatRedirectBehavior, normalizeRedirectBehavior } from './redirectBehavior';
+
+/** Rules and variants get a fresh id when saved, so only their content is compared. */
+const withoutIds = <T extends { id: string }>(items: T[]) => JSON.stringify(items.map(item => ({ ...item, id: '' })));
+
+/**
+ * Settings a new link would get that an existing link to the same destination
+ * doesn't have, e.g. `['password', 'tags']`. Reusing that link keeps its own
+ * settings, so these would be silently dropped. Expiry isn't compared, since
+ * `extend` takes care of it. A requested password always counts as different,
+ * as it can't be compared with the stored hash.
+ */
+export function findDuplicateDifferences(existing: ShortenedURL, requested: CreateURLOptions): string[] {
+  const tags = (values: string[]) => JSON.stringify(normalizeTags(values).sort());
+  const behavior = formatRedirectBehavior(normalizeRedirectBehavior(requested.redirectBehavior ?? DEFAULT_REDIRECT_BEHAVIOR));
+  const checks: [string, boolean][] = [
+    ['password', existing.hasPassword || Boolean(requested.password)],
+    ['click limit', (existing.maxClicks ?? null) !== (requested.maxClicks ?? null)],
+    ['go-live time', (existing.activatesAt?.getTime() ?? null) !== (requested.activatesAt?.getTime() ?? null)],
+    ['tags', tags(existing.tags) !== tags(requested.tags ?? [])],
+    ['folder', existing.folder !== normalizeFolder(requested.folder)],
+    ['routing rules', withoutIds(existing.routingRules) !== withoutIds(normalizeRoutingRules(requested.routingRules ?? []))],
+    ['A/B split', withoutIds(existing.variants) !== withoutIds(normalizeVariants(requested.variants ?? []))],
+    ['UTM parameters', JSON.stringify(existing.utm ?? null) !== JSON.stringify(normalizeUTM(requested.utm) ?? null)],
+    ['passthrough', existing.passthrough !== (requested.passthrough ?? false)],
+    ['redirect type', existing.redirectType !== (requested.redirectType ?? 302)],
+    ['redirect page', formatRedirectBehavior(existing.redirectBehavior) !== behavior],
+    ['fallback', (existing.fallbackUrl ?? '') !== (requested.fallbackUrl?.trim() ?? '')]
+  ];
+  return checks.filter(([, differs]) => differs).map(([label]) => label);
+}
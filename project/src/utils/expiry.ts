@@ -0,0 +1,46 @@
+import { format } from 'date-fns';
+import { ShortenedURL, ValidityUnit } from '../types';
+
+const MINUTES_PER_UNIT: Record<ValidityUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 24 * 60
+};
+
+export function toMinutes(amount: number, unit: ValidityUnit): number {
+  return amount * MINUTES_PER_UNIT[unit];
+}
+
+/** Parses a `datetime-local` input value; empty input gives undefined. */
+export function parseDateTimeInput(value: string): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+/** Formats a date for a `datetime-local` input. */
+export function toDateTimeInput(date: Date | null | undefined): string {
+  return date ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+}
+
+export function formatExpiry(url: ShortenedURL): string {
+  return url.expiresAt ? format(url.expiresAt, 'MMM dd, yyyy HH:mm') : 'Never';
+}
+
+export function isScheduled(url: ShortenedURL, now: Date = new Date()): boolean {
+  return url.activatesAt !== undefined && now < url.activatesAt;
+}
+
+/** Visitor-facing explanation of why a link no longer redirects. */
+export function describeExpiry(url: ShortenedURL): string {
+  switch (url.expiredReason) {
+    case 'clicks':
+      return url.maxClicks === 1
+        ? 'This one-time link has already been used.'
+        : `This link reached its limit of ${url.maxClicks} uses.`;
+    case 'manual':
+      return 'This link was deactivated by its owner.';
+    case 'time':
+      return `This link expired on ${formatExpiry(url)}.`;
+    default:
+      return 'This shortened URL has expired and is no longer valid.';
+  }
+}
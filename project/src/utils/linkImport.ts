@@ -0,0 +1,161 @@
+/** One link read from an import file. Values stay as text so they can be edited in the preview. */
+export interface ImportRow {
+  line: number;
+  originalUrl: string;
+  validityMinutes: string;
+  customShortcode: string;
+  tags: string;
+}
+
+export type ImportStatus = 'created' | 'skipped' | 'failed';
+
+export interface ImportResult {
+  line: number;
+  originalUrl: string;
+  customShortcode: string;
+  status: ImportStatus;
+  shortUrl?: string;
+  error?: string;
+}
+
+type ImportField = Exclude<keyof ImportRow, 'line'>;
+
+const COLUMN_ALIASES: Record<string, ImportField> = {
+  url: 'originalUrl',
+  originalurl: 'originalUrl',
+  destination: 'originalUrl',
+  validity: 'validityMinutes',
+  validityminutes: 'validityMinutes',
+  minutes: 'validityMinutes',
+  shortcode: 'customShortcode',
+  customshortcode: 'customShortcode',
+  code: 'customShortcode',
+  tags: 'tags'
+};
+
+const POSITIONAL_COLUMNS: ImportField[] = ['originalUrl', 'validityMinutes', 'customShortcode', 'tags'];
+
+const toField = (name: string): ImportField | undefined => COLUMN_ALIASES[name.trim().toLowerCase().replace(/[\s_-]/g, '')];
+
+/** Splits CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines. */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function toCSV(rows: (string | number)[][]): string {
+  return rows
+    .map(row => row.map(value => `"${String(value).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+}
+
+// Spreadsheets often separate tags with semicolons so the cell needs no quoting
+const normalizeTagCell = (value: string) => value.replace(/[;|]/g, ',');
+
+function parseCSVRows(text: string): ImportRow[] {
+  const records = parseCSV(text.replace(/^\uFEFF/, ''));
+  if (records.length === 0) {
+    return [];
+  }
+
+  const headerFields = records[0].map(toField);
+  const hasHeader = headerFields.includes('originalUrl');
+  const columns = hasHeader ? headerFields : POSITIONAL_COLUMNS;
+
+  return records
+    .map((record, index) => ({ record, line: index + 1 }))
+    .slice(hasHeader ? 1 : 0)
+    .filter(({ record }) => record.some(value => value.trim() !== ''))
+    .map(({ record, line }) => {
+      const row: ImportRow = { line, originalUrl: '', validityMinutes: '', customShortcode: '', tags: '' };
+      columns.forEach((field, column) => {
+        if (field && record[column] !== undefined) {
+          row[field] = record[column].trim();
+        }
+      });
+      row.tags = normalizeTagCell(row.tags);
+      return row;
+    });
+}
+
+function parseJSONRows(text: string): ImportRow[] {
+  const data: unknown = JSON.parse(text);
+  const items = Array.isArray(data) ? data : (data as { links?: unknown })?.links;
+  if (!Array.isArray(items)) {
+    throw new Error('JSON import must be an array of links');
+  }
+
+  return items.map((item, index) => {
+    const row: ImportRow = { line: index + 1, originalUrl: '', validityMinutes: '', customShortcode: '', tags: '' };
+    if (item && typeof item === 'object') {
+      Object.entries(item as Record<string, unknown>).forEach(([key, value]) => {
+        const field = toField(key);
+        if (!field || value === undefined || value === null) {
+          return;
+        }
+        row[field] = Array.isArray(value) ? value.join(', ') : String(value).trim();
+      });
+    }
+    row.tags = normalizeTagCell(row.tags);
+    return row;
+  });
+}
+
+/** Reads an import file, picking the format from its extension. */
+export function parseImportFile(fileName: string, text: string): ImportRow[] {
+  return fileName.toLowerCase().endsWith('.json') ? parseJSONRows(text) : parseCSVRows(text);
+}
+
+export function formatImportResults(results: ImportResult[]): string {
+  return toCSV([
+    ['Line', 'Original URL', 'Custom Shortcode', 'Status', 'Short URL', 'Error'],
+    ...results.map(result => [
+      result.line,
+      result.originalUrl,
+      result.customShortcode,
+      result.status,
+      result.shortUrl ?? '',
+      result.error ?? ''
+    ])
+  ]);
+}
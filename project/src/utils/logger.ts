@@ -1,4 +1,28 @@
-import { LogEvent } from '../types';
+import { LogEvent, RestoreMode } from '../types';
+import {
+  QUARANTINE_STORAGE_KEY,
+  RawRecord,
+  StoredEnvelope,
+  createEnvelope,
+  decodeEnvelope,
+  encodeEnvelope,
+  parseQuarantine,
+  requireString,
+  reviveDate
+} from './schema';
+import { LOG_MIGRATIONS } from './migrations';
+
+const LOG_STORAGE_KEY = 'url_shortener_logs';
+const MAX_LOGS = 1000;
+
+function reviveLog(log: RawRecord): LogEvent {
+  return {
+    ...(log as unknown as LogEvent),
+    id: requireString(log, 'id'),
+    message: requireString(log, 'message'),
+    timestamp: reviveDate(log.timestamp, 'timestamp')
+  };
+}
 
 class Logger {
   private logs: LogEvent[] = [];
@@ -20,13 +44,20 @@ class Logger {
     this.notifyListeners();
     
     // Keep only last 1000 logs to prevent memory issues
-    if (this.logs.length > 1000) {
-      this.logs = this.logs.slice(-1000);
+    if (this.logs.length > MAX_LOGS) {
+      this.logs = this.logs.slice(-MAX_LOGS);
     }
     
-    // Persist to localStorage
+    this.persist();
+  }
+
+  private persist() {
+    // Persist to localStorage (absent when running under Node)
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
     try {
-      localStorage.setItem('url_shortener_logs', JSON.stringify(this.logs));
+      localStorage.setItem(LOG_STORAGE_KEY, encodeEnvelope(this.logs, LOG_MIGRATIONS));
     } catch (error) {
       console.warn('Failed to persist logs to localStorage:', error);
     }
@@ -64,6 +95,24 @@ class Logger {
     return [...this.logs];
   }
 
+  exportLogs(): StoredEnvelope {
+    return createEnvelope(this.logs, LOG_MIGRATIONS);
+  }
+
+  /** Restores logs from an exported envelope and returns how many were read. */
+  importLogs(envelope: unknown, mode: RestoreMode): number {
+    const { records } = decodeEnvelope(LOG_STORAGE_KEY, JSON.stringify(envelope), LOG_MIGRATIONS, reviveLog);
+    const byId = new Map((mode === 'replace' ? [] : this.logs).map(log => [log.id, log]));
+    records.forEach(log => byId.set(log.id, log));
+    this.logs = [...byId.values()]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(-MAX_LOGS);
+    this.persist();
+    this.notifyListeners();
+    this.info('Logs restored from backup', { mode, count: records.length }, 'Logger');
+    return records.length;
+  }
+
   subscribe(listener: (logs: LogEvent[]) => void) {
     this.listeners.push(listener);
     return () => {
@@ -72,19 +121,26 @@ class Logger {
   }
 
   initialize() {
+    let quarantinedCount = 0;
     try {
-      const savedLogs = localStorage.getItem('url_shortener_logs');
+      const savedLogs = localStorage.getItem(LOG_STORAGE_KEY);
       if (savedLogs) {
-        this.logs = JSON.parse(savedLogs).map((log: any) => ({
-          ...log,
-          timestamp: new Date(log.timestamp)
-        }));
+        const { records, quarantined } = decodeEnvelope(LOG_STORAGE_KEY, savedLogs, LOG_MIGRATIONS, reviveLog);
+        this.logs = records;
+        quarantinedCount = quarantined.length;
+        if (quarantined.length > 0) {
+          const existing = parseQuarantine(localStorage.getItem(QUARANTINE_STORAGE_KEY));
+          localStorage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify([...existing, ...quarantined]));
+        }
       }
     } catch (error) {
       console.warn('Failed to load logs from localStorage:', error);
     }
     
     this.info('Logger initialized', { logsCount: this.logs.length }, 'Logger');
+    if (quarantinedCount > 0) {
+      this.warn('Quarantined unreadable log records', { count: quarantinedCount }, 'Logger');
+    }
   }
 }
 
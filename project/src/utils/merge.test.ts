@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ClickData, URLRevision } from '../types';
+import { makeLink } from '../test/links';
+import { mergeURLs } from './merge';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 0, minutes));
+const click = (id: string, minutes: number): ClickData => ({ id, timestamp: at(minutes), source: 'direct', location: 'Unknown', userAgent: 'test', ipAddress: 'client-side' });
+const revision = (id: string, minutes: number): URLRevision => ({ id, timestamp: at(minutes), changedBy: 'test', changes: [] });
+
+describe('mergeURLs', () => {
+  it('unions click and revision histories of the same link, in time order', () => {
+    const local = makeLink({ clicks: [click('a', 1), click('c', 3)], revisions: [revision('r1', 1)] });
+    const remote = makeLink({ clicks: [click('a', 1), click('b', 2)], revisions: [revision('r2', 2)] });
+
+    const [merged] = mergeURLs([local], [remote], new Set());
+
+    expect(merged.clicks.map(c => c.id)).toEqual(['a', 'b', 'c']);
+    expect(merged.revisions.map(r => r.id)).toEqual(['r1', 'r2']);
+  });
+
+  it('takes settings from whichever copy was updated last', () => {
+    const older = makeLink({ originalUrl: 'https://old.example/', updatedAt: at(1) });
+    const newer = makeLink({ originalUrl: 'https://new.example/', updatedAt: at(2), clicks: [click('a', 1)] });
+
+    expect(mergeURLs([older], [newer], new Set())[0].originalUrl).toBe('https://new.example/');
+    expect(mergeURLs([newer], [older], new Set())[0].originalUrl).toBe('https://new.example/');
+    // Clicks survive whichever side wins
+    expect(mergeURLs([newer], [older], new Set())[0].clicks).toHaveLength(1);
+  });
+
+  it('keeps this tab\'s copy when both were updated at the same time', () => {
+    const local = makeLink({ folder: 'local' });
+    const remote = makeLink({ folder: 'remote' });
+
+    expect(mergeURLs([local], [remote], new Set())[0].folder).toBe('local');
+  });
+
+  it('adds links only the other tab knows about', () => {
+    const merged = mergeURLs([makeLink({ id: 'one' })], [makeLink({ id: 'one' }), makeLink({ id: 'two' })], new Set());
+
+    expect(merged.map(url => url.id)).toEqual(['one', 'two']);
+  });
+
+  it('drops purged links from both sides', () => {
+    const merged = mergeURLs(
+      [makeLink({ id: 'kept' }), makeLink({ id: 'purged-here' })],
+      [makeLink({ id: 'purged-here' }), makeLink({ id: 'purged-there' })],
+      new Set(['purged-here', 'purged-there'])
+    );
+
+    expect(merged.map(url => url.id)).toEqual(['kept']);
+  });
+
+  it('brings a trashed link back when the other tab restored it later', () => {
+    const trashed = makeLink({ deletedAt: at(1), updatedAt: at(1) });
+    const restored = makeLink({ deletedAt: undefined, updatedAt: at(2) });
+
+    expect(mergeURLs([trashed], [restored], new Set())[0].deletedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+import { ShortenedURL } from '../types';
+
+function unionById<T extends { id: string; timestamp: Date }>(local: T[], remote: T[]): T[] {
+  const byId = new Map<string, T>();
+  [...remote, ...local].forEach(item => byId.set(item.id, item));
+  return [...byId.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+function mergeURL(local: ShortenedURL, remote: ShortenedURL): ShortenedURL {
+  // Link settings come from whichever side changed them most recently
+  const newest = remote.updatedAt > local.updatedAt ? remote : local;
+  return {
+    ...newest,
+    clicks: unionById(local.clicks, remote.clicks),
+    revisions: unionById(local.revisions, remote.revisions)
+  };
+}
+
+/**
+ * Combines this tab's links with the copy another tab persisted. Links are
+ * matched by id and click histories are unioned, so concurrent clicks recorded
+ * in different tabs are never lost. For links both sides know about, the side
+ * updated last wins; ids in `deletedIds` (purged links) are dropped from either side.
+ */
+export function mergeURLs(local: ShortenedURL[], remote: ShortenedURL[], deletedIds: Set<string>): ShortenedURL[] {
+  const remoteById = new Map(remote.map(url => [url.id, url]));
+  const localIds = new Set(local.map(url => url.id));
+
+  const merged = local
+    .filter(url => !deletedIds.has(url.id))
+    .map(url => {
+      const other = remoteById.get(url.id);
+      return other ? mergeURL(url, other) : url;
+    });
+
+  remote
+    .filter(url => !localIds.has(url.id) && !deletedIds.has(url.id))
+    .forEach(url => merged.push(url));
+
+  return merged;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { LINK_MIGRATIONS } from './migrations';
+import { RawRecord, decodeEnvelope, latestVersion } from './schema';
+import { reviveURL } from './urlShortener';
+
+const createdAt = '2024-01-01T00:00:00.000Z';
+
+/** A link as the first release stored it: a bare array with no envelope. */
+const legacyLink = (fields: Record<string, unknown> = {}) => ({
+  id: 'link-1',
+  originalUrl: 'https://example.com/',
+  shortCode: 'abc123',
+  shortUrl: 'http://localhost/s/abc123',
+  createdAt,
+  expiresAt: '2024-01-01T00:30:00.000Z',
+  ...fields
+});
+
+/** The legacy link as it was stored at `version`, with `fields` set afterwards. */
+const storedAt = (version: number, fields: Record<string, unknown> = {}) => ({
+  version,
+  savedAt: createdAt,
+  records: [{
+    ...LINK_MIGRATIONS.filter(migration => migration.version <= version).reduce<RawRecord>((record, migration) => migration.migrate(record), legacyLink()),
+    ...fields
+  }]
+});
+
+const decode = (data: unknown) => decodeEnvelope('test', JSON.stringify(data), LINK_MIGRATIONS, reviveURL);
+
+describe('LINK_MIGRATIONS', () => {
+  it('numbers migrations consecutively from 1', () => {
+    expect(LINK_MIGRATIONS.map(migration => migration.version))
+      .toEqual(LINK_MIGRATIONS.map((_, index) => index + 1));
+  });
+
+  it('brings a pre-envelope link up to the latest schema with every field defaulted', () => {
+    const { records, quarantined, version, migrated } = decode([legacyLink({ clicks: 'not a list' })]);
+
+    expect(quarantined).toEqual([]);
+    expect(migrated).toBe(true);
+    expect(version).toBe(latestVersion(LINK_MIGRATIONS));
+    expect(records).toHaveLength(1);
+    const [url] = records;
+    expect(url).toMatchObject({
+      clicks: [],
+      isExpired: false,
+      redirectType: 302,
+      revisions: [],
+      tags: [],
+      routingRules: [],
+      variants: [],
+      passthrough: false,
+      domainId: 'default',
+      // v2 put every old link behind the countdown page, which v11 keeps
+      redirectBehavior: { mode: 'countdown', countdownSeconds: 5 },
+      hasPassword: false
+    });
+    expect(url.expiredReason).toBeUndefined();
+    expect(url).not.toHaveProperty('interstitial');
+    expect(url.createdAt).toEqual(new Date(createdAt));
+    expect(url.updatedAt).toEqual(new Date(createdAt));
+  });
+
+  it('takes updatedAt from the latest revision when there is one (v4)', () => {
+    const revisions = [
+      { id: 'r1', timestamp: '2024-01-02T00:00:00.000Z', changedBy: 'a', changes: [] },
+      { id: 'r2', timestamp: '2024-01-03T00:00:00.000Z', changedBy: 'b', changes: [] }
+    ];
+    const { records } = decode(storedAt(3, { revisions }));
+
+    expect(records[0].updatedAt).toEqual(new Date('2024-01-03T00:00:00.000Z'));
+  });
+
+  it('records that links expired before v6 expired by time', () => {
+    const { records } = decode(storedAt(5, { isExpired: true }));
+
+    expect(records[0].expiredReason).toBe('time');
+  });
+
+  it('maps the interstitial flag to a redirect mode (v11)', () => {
+    const envelope = (interstitial: boolean) => storedAt(10, { interstitial });
+
+    expect(decode(envelope(false)).records[0].redirectBehavior).toEqual({ mode: 'instant', countdownSeconds: 5 });
+    expect(decode(envelope(true)).records[0].redirectBehavior).toEqual({ mode: 'countdown', countdownSeconds: 5 });
+  });
+
+  it('flags links that have a password hash (v12)', () => {
+    const password = { algorithm: 'PBKDF2-SHA256', iterations: 1, salt: 'c2FsdA==', hash: 'aGFzaA==' };
+    const { records } = decode(storedAt(11, { password }));
+
+    expect(records[0].hasPassword).toBe(true);
+    expect(records[0].password).toEqual(password);
+  });
+
+  it('keeps values already set instead of overwriting them with defaults', () => {
+    const stored = legacyLink({
+      redirectType: 301,
+      interstitial: false,
+      tags: ['promo'],
+      isExpired: true,
+      expiredReason: 'clicks',
+      domainId: 'brand',
+      passthrough: true
+    });
+    const { records } = decode([stored]);
+
+    expect(records[0]).toMatchObject({
+      redirectType: 301,
+      tags: ['promo'],
+      expiredReason: 'clicks',
+      domainId: 'brand',
+      passthrough: true,
+      redirectBehavior: { mode: 'instant', countdownSeconds: 5 }
+    });
+  });
+
+  it('only runs migrations newer than the stored version', () => {
+    // Tags were made a list by v5, so a current record that isn't one shows no migration touched it
+    const { records, migrated } = decode(storedAt(latestVersion(LINK_MIGRATIONS), { tags: 'left alone' }));
+
+    expect(migrated).toBe(false);
+    expect(records[0].tags).toBe('left alone');
+  });
+
+  it('quarantines records that fail to migrate or revive without losing the rest', () => {
+    const { records, quarantined } = decode([legacyLink(), legacyLink({ id: 'broken', createdAt: 'not a date' }), 42]);
+
+    expect(records.map(url => url.id)).toEqual(['link-1']);
+    expect(quarantined).toHaveLength(2);
+    expect(quarantined[0].reason).toMatch(/^Revive failed/);
+    expect(quarantined[1].reason).toBe('Record is not an object');
+  });
+
+  it('refuses stores written by a newer version', () => {
+    const { records, quarantined } = decode({ version: latestVersion(LINK_MIGRATIONS) + 1, savedAt: createdAt, records: [legacyLink()] });
+
+    expect(records).toEqual([]);
+    expect(quarantined[0].reason).toMatch(/newer than supported/);
+  });
+});
@@ -0,0 +1,123 @@
+import { Migration, RawRecord } from './schema';
+import { DEFAULT_DOMAIN_ID } from './domains';
+
+/**
+ * Ordered schema migrations for persisted data. Append a new entry with the
+ * next version number whenever a stored field is added, renamed or reshaped;
+ * never edit a migration that has already shipped.
+ */
+export const LINK_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Wrap legacy link array in a versioned envelope and normalize click lists',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      clicks: Array.isArray(record.clicks) ? record.clicks : [],
+      isExpired: Boolean(record.isExpired)
+    })
+  },
+  {
+    version: 2,
+    description: 'Add redirect status code and interstitial flag',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      redirectType: record.redirectType ?? 302,
+      // Every link used to go through the countdown page
+      interstitial: record.interstitial ?? true
+    })
+  },
+  {
+    version: 3,
+    description: 'Add revision history',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      revisions: Array.isArray(record.revisions) ? record.revisions : []
+    })
+  },
+  {
+    version: 4,
+    description: 'Add last-updated timestamp for trash and cross-tab merging',
+    migrate: (record: RawRecord) => {
+      const revisions = record.revisions as RawRecord[];
+      return {
+        ...record,
+        updatedAt: record.updatedAt ?? (revisions.length > 0 ? revisions[revisions.length - 1].timestamp : record.createdAt)
+      };
+    }
+  },
+  {
+    version: 5,
+    description: 'Add tags',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      tags: Array.isArray(record.tags) ? record.tags : []
+    })
+  },
+  {
+    version: 6,
+    description: 'Record why expired links expired',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      // Links could only expire by time before click limits existed
+      expiredReason: record.expiredReason ?? (record.isExpired ? 'time' : undefined)
+    })
+  },
+  {
+    version: 7,
+    description: 'Add destination routing rules',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      routingRules: Array.isArray(record.routingRules) ? record.routingRules : []
+    })
+  },
+  {
+    version: 8,
+    description: 'Add weighted split variants',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      variants: Array.isArray(record.variants) ? record.variants : []
+    })
+  },
+  {
+    version: 9,
+    description: 'Add query and fragment passthrough flag',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      passthrough: Boolean(record.passthrough)
+    })
+  },
+  {
+    version: 10,
+    description: 'Serve links on branded domains',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      // Every link used to live on the app's own domain
+      domainId: record.domainId ?? DEFAULT_DOMAIN_ID
+    })
+  },
+  {
+    version: 11,
+    description: 'Replace the interstitial flag with a redirect mode, countdown and page text',
+    migrate: ({ interstitial, ...record }: RawRecord) => ({
+      ...record,
+      // The countdown page always waited five seconds
+      redirectBehavior: record.redirectBehavior ?? { mode: interstitial ? 'countdown' : 'instant', countdownSeconds: 5 }
+    })
+  },
+  {
+    version: 12,
+    description: 'Flag password-protected links, so they can be shown as such without their hash',
+    migrate: (record: RawRecord) => ({
+      ...record,
+      hasPassword: record.hasPassword ?? Boolean(record.password)
+    })
+  }
+];
+
+export const LOG_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Wrap legacy log array in a versioned envelope',
+    migrate: (record: RawRecord) => record
+  }
+];
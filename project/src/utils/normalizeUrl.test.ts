@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeDestination } from './normalizeUrl';
+
+describe('normalizeDestination', () => {
+  it('lowercases the scheme and host and drops the default port', () => {
+    expect(normalizeDestination(' HTTPS://Example.COM:443/Path ')).toBe('https://example.com/Path');
+  });
+
+  it('sorts query parameters by name, keeping repeated ones in order', () => {
+    expect(normalizeDestination('https://example.com/?b=2&a=1&b=1')).toBe('https://example.com/?a=1&b=2&b=1');
+  });
+
+  it('keeps parameters exactly as typed', () => {
+    expect(normalizeDestination('https://example.com/?q=a%20b&flag&r=c+d')).toBe('https://example.com/?flag&q=a%20b&r=c+d');
+    expect(normalizeDestination('https://example.com/?a=1&&b=2')).toBe('https://example.com/?a=1&b=2');
+  });
+
+  it('removes tracking parameters only when asked to', () => {
+    const tracked = 'https://example.com/?utm_source=news&id=7&FBCLID=x&utm%5Fmedium=email';
+
+    expect(normalizeDestination(tracked)).toBe('https://example.com/?FBCLID=x&id=7&utm%5Fmedium=email&utm_source=news');
+    expect(normalizeDestination(tracked, true)).toBe('https://example.com/?id=7');
+    expect(normalizeDestination('https://example.com/?gclid=1', true)).toBe('https://example.com/');
+  });
+
+  it('returns what it can\'t parse unchanged', () => {
+    expect(normalizeDestination('not a url')).toBe('not a url');
+  });
+});
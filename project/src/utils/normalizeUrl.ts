@@ -0,0 +1,47 @@
+/** Query parameters that only identify where a click came from, never what page it opens. */
+const TRACKING_PARAMS = ['fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl'];
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.includes(lower);
+}
+
+/** Name of a raw `name=value` query pair, decoded only for comparing it with other names. */
+export function pairName(pair: string): string {
+  const name = pair.split('=')[0];
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' '));
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Puts a destination in a standard form so the same page is recognised however
+ * it was typed: lowercase scheme and host, no default port (both done by URL
+ * parsing), query parameters sorted by name and, with `stripTracking`,
+ * campaign and click-id parameters removed. The parameters themselves are kept
+ * exactly as typed, since re-encoding them (`?flag` as `?flag=`, `%20` as `+`)
+ * can change what the destination sees. Unparseable input comes back as is.
+ */
+export function normalizeDestination(destination: string, stripTracking = false): string {
+  let url: URL;
+  try {
+    url = new URL(destination.trim());
+  } catch {
+    return destination;
+  }
+
+  const pairs = url.search.slice(1).split('&');
+  const kept = pairs
+    .filter(pair => pair && !(stripTracking && isTrackingParam(pairName(pair))))
+    .sort((a, b) => {
+      const [nameA, nameB] = [a.split('=')[0], b.split('=')[0]];
+      return nameA < nameB ? -1 : nameA > nameB ? 1 : 0;
+    });
+  if (kept.length !== pairs.length || kept.some((pair, i) => pair !== pairs[i])) {
+    // An emptied query would otherwise leave a trailing "?"
+    url.search = kept.length > 0 ? `?${kept.join('&')}` : '';
+  }
+  return url.href;
+}
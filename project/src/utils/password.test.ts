@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { hashPassword, verifyPassword, withoutPasswordHash } from './password';
+import { makeLink } from '../test/links';
+
+describe('password hashing', () => {
+  it('salts every hash, so the same password never hashes the same twice', async () => {
+    const [first, second] = await Promise.all([hashPassword('open sesame'), hashPassword('open sesame')]);
+
+    expect(first).toMatchObject({ algorithm: 'PBKDF2-SHA256', iterations: 210000 });
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.hash).not.toBe(second.hash);
+  });
+
+  it('verifies only the password that was hashed', async () => {
+    const stored = await hashPassword('open sesame');
+
+    expect(await verifyPassword('open sesame', stored)).toBe(true);
+    expect(await verifyPassword('Open sesame', stored)).toBe(false);
+    expect(await verifyPassword('', stored)).toBe(false);
+  });
+
+  it('verifies with the iteration count stored alongside the hash', async () => {
+    const stored = await hashPassword('open sesame');
+
+    expect(await verifyPassword('open sesame', { ...stored, iterations: 1000 })).toBe(false);
+  });
+
+  it('strips the hash but keeps the flag', () => {
+    const url = makeLink({ hasPassword: true, password: { algorithm: 'PBKDF2-SHA256', iterations: 1, salt: 'c2FsdA==', hash: 'aGFzaA==' } });
+
+    expect(withoutPasswordHash(url)).toMatchObject({ hasPassword: true, password: undefined });
+    expect(url.password).toBeDefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { PasswordHash, ShortenedURL } from '../types';
+
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations: ITERATIONS,
+    salt: toBase64(salt),
+    hash: toBase64(await derive(password, salt, ITERATIONS))
+  };
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  const expected = fromBase64(stored.hash);
+  const actual = await derive(password, fromBase64(stored.salt), stored.iterations);
+  // Compare every byte so the time taken doesn't reveal how much matched
+  let diff = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected[i] ^ (actual[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/** Copy of the link without its password hash, for anything that leaves storage; `hasPassword` still says it is protected. */
+export function withoutPasswordHash(url: ShortenedURL): ShortenedURL {
+  return { ...url, password: undefined };
+}
@@ -0,0 +1,442 @@
+/**
+ * QR code encoder (ISO/IEC 18004, byte mode, versions 1–40) so codes can be
+ * made offline, plus SVG and PNG rendering for download.
+ */
+
+/** How much of the code can be damaged or covered and still scan: about 7%, 15%, 25% or 30%. */
+export type QRErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRCode {
+  version: number;
+  /** Modules per side, without the quiet zone. */
+  size: number;
+  /** `modules[row][column]`, true for dark. */
+  modules: boolean[][];
+}
+
+export const QR_ERROR_CORRECTION_LEVELS: { value: QRErrorCorrection; label: string }[] = [
+  { value: 'L', label: 'Low (7%)' },
+  { value: 'M', label: 'Medium (15%)' },
+  { value: 'Q', label: 'Quartile (25%)' },
+  { value: 'H', label: 'High (30%)' }
+];
+
+/** Light modules scanners need around the code, in modules. */
+export const QR_QUIET_ZONE = 4;
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+/** Error correction codewords per block, indexed by version (index 0 unused). */
+const ECC_CODEWORDS_PER_BLOCK: Record<QRErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+/** Error correction blocks, indexed by version (index 0 unused). */
+const ERROR_CORRECTION_BLOCKS: Record<QRErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+/** The two bits that name the level in the format information. */
+const FORMAT_BITS: Record<QRErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MASKS: ((row: number, column: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  r => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => (r * c) % 2 + (r * c) % 3 === 0,
+  (r, c) => ((r * c) % 2 + (r * c) % 3) % 2 === 0,
+  (r, c) => ((r + c) % 2 + (r * c) % 3) % 2 === 0
+];
+
+/** Data and error correction modules in a symbol, i.e. everything but the fixed patterns. */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: QRErrorCorrection): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+}
+
+/** Rows and columns of the alignment pattern centres. */
+function alignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+/** Multiplication in GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1. */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() ?? 0);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/** Mode indicator, length and bytes, terminated and padded to the version's data capacity. */
+function encodeData(bytes: Uint8Array, version: number, level: QRErrorCorrection): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacityBits = dataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+/** Splits data into blocks, appends each block's error correction and interleaves the lot. */
+function addErrorCorrection(data: number[], version: number, level: QRErrorCorrection): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const shortBlockLength = Math.floor(data.length / blockCount);
+  // The last `data.length % blockCount` blocks hold one extra codeword
+  const shortBlocks = blockCount - data.length % blockCount;
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: { data: number[]; ecc: number[] }[] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength + (i < shortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + length);
+    offset += length;
+    blocks.push({ data: blockData, ecc: reedSolomonRemainder(blockData, divisor) });
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortBlockLength; i++) {
+    blocks.forEach(block => {
+      if (i < block.data.length) {
+        result.push(block.data[i]);
+      }
+    });
+  }
+  for (let i = 0; i < eccLength; i++) {
+    blocks.forEach(block => result.push(block.ecc[i]));
+  }
+  return result;
+}
+
+class QRMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  /** Finder, timing, alignment and format modules, which data and masks skip. */
+  private readonly fixed: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.fixed = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFixed(row: number, column: number, dark: boolean) {
+    this.modules[row][column] = dark;
+    this.fixed[row][column] = true;
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFixed(6, i, i % 2 === 0);
+      this.setFixed(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their light separators
+    [[3, 3], [3, this.size - 4], [this.size - 4, 3]].forEach(([centerRow, centerColumn]) => {
+      for (let dr = -4; dr <= 4; dr++) {
+        for (let dc = -4; dc <= 4; dc++) {
+          const row = centerRow + dr;
+          const column = centerColumn + dc;
+          const distance = Math.max(Math.abs(dr), Math.abs(dc));
+          if (row >= 0 && row < this.size && column >= 0 && column < this.size) {
+            this.setFixed(row, column, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    });
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((row, i) => positions.forEach((column, j) => {
+      // Corners taken by finder patterns have no alignment pattern
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dr = -2; dr <= 2; dr++) {
+        for (let dc = -2; dc <= 2; dc++) {
+          this.setFixed(row + dr, column + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1);
+        }
+      }
+    }));
+
+    // Reserve the format areas now; the real bits go in once the mask is chosen
+    this.drawFormatBits('L', 0);
+
+    if (this.version >= 7) {
+      let remainder = this.version;
+      for (let i = 0; i < 12; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      }
+      const bits = (this.version << 12) | remainder;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = this.size - 11 + i % 3;
+        const b = Math.floor(i / 3);
+        this.setFixed(b, a, dark);
+        this.setFixed(a, b, dark);
+      }
+    }
+  }
+
+  drawFormatBits(level: QRErrorCorrection, mask: number) {
+    const data = (FORMAT_BITS[level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFixed(i, 8, bit(i));
+    }
+    this.setFixed(7, 8, bit(6));
+    this.setFixed(8, 8, bit(7));
+    this.setFixed(8, 7, bit(8));
+    for (let i = 9; i < 15; i++) {
+      this.setFixed(8, 14 - i, bit(i));
+    }
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) {
+      this.setFixed(8, this.size - 1 - i, bit(i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFixed(this.size - 15 + i, 8, bit(i));
+    }
+    this.setFixed(this.size - 8, 8, true);
+  }
+
+  /** Fills the data area in the standard two-column zigzag from the bottom right. */
+  drawCodewords(codewords: number[]) {
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      const upward = ((right + 1) & 2) === 0;
+      for (let step = 0; step < this.size; step++) {
+        const row = upward ? this.size - 1 - step : step;
+        for (let j = 0; j < 2; j++) {
+          const column = right - j;
+          if (!this.fixed[row][column] && index < codewords.length * 8) {
+            this.modules[row][column] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+            index++;
+          }
+        }
+      }
+    }
+  }
+
+  /** Applying the same mask twice undoes it. */
+  applyMask(mask: number) {
+    for (let row = 0; row < this.size; row++) {
+      for (let column = 0; column < this.size; column++) {
+        if (!this.fixed[row][column] && MASKS[mask](row, column)) {
+          this.modules[row][column] = !this.modules[row][column];
+        }
+      }
+    }
+  }
+
+  /** How hard the symbol is to scan; the mask with the lowest score is used. */
+  penalty(): number {
+    let score = 0;
+    const lines = [
+      ...this.modules,
+      ...this.modules.map((_, column) => this.modules.map(row => row[column]))
+    ];
+
+    lines.forEach(line => {
+      // Runs of five or more modules of one colour
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) {
+            score += run - 2;
+          }
+          run = 1;
+        }
+      }
+      // Patterns that look like a finder
+      const text = line.map(dark => (dark ? '1' : '0')).join('');
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+          score += 40;
+        }
+      }
+    });
+
+    let dark = 0;
+    for (let row = 0; row < this.size; row++) {
+      for (let column = 0; column < this.size; column++) {
+        const color = this.modules[row][column];
+        if (color) {
+          dark++;
+        }
+        if (row + 1 < this.size && column + 1 < this.size
+          && color === this.modules[row][column + 1]
+          && color === this.modules[row + 1][column]
+          && color === this.modules[row + 1][column + 1]) {
+          score += 3;
+        }
+      }
+    }
+    const total = this.size * this.size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+/**
+ * Encodes text as the smallest QR code that holds it at the given error
+ * correction level. Returns null when it is too long for any version.
+ */
+export function encodeQR(text: string, level: QRErrorCorrection = 'M'): QRCode | null {
+  const bytes = new TextEncoder().encode(text);
+  let version = MIN_VERSION;
+  const fits = (v: number) => 4 + (v <= 9 ? 8 : 16) + bytes.length * 8 <= dataCodewords(v, level) * 8;
+  while (version <= MAX_VERSION && !fits(version)) {
+    version++;
+  }
+  if (version > MAX_VERSION) {
+    return null;
+  }
+
+  const matrix = new QRMatrix(version);
+  matrix.drawCodewords(addErrorCorrection(encodeData(bytes, version, level), version, level));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  MASKS.forEach((_, mask) => {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(level, mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  });
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(level, bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+}
+
+/** A standalone SVG document `pixels` wide, with the quiet zone and a white background. */
+export function qrToSvg(qr: QRCode, pixels: number): string {
+  const extent = qr.size + QR_QUIET_ZONE * 2;
+  const path = qr.modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QR_QUIET_ZONE},${y + QR_QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n`
+    + `<svg xmlns="http://www.w3.org/2000/svg" width="${pixels}" height="${pixels}" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges">`
+    + `<rect width="100%" height="100%" fill="#ffffff"/><path d="${path}" fill="#000000"/></svg>\n`;
+}
+
+/** Renders a PNG `pixels` wide in the browser. Module edges are rounded to whole pixels so none blur. */
+export function qrToPng(qr: QRCode, pixels: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels;
+  canvas.height = pixels;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Canvas is not available'));
+  }
+
+  const extent = qr.size + QR_QUIET_ZONE * 2;
+  const edge = (module: number) => Math.round((module * pixels) / extent);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, pixels, pixels);
+  context.fillStyle = '#000000';
+  qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) {
+      const left = edge(x + QR_QUIET_ZONE);
+      const top = edge(y + QR_QUIET_ZONE);
+      context.fillRect(left, top, edge(x + QR_QUIET_ZONE + 1) - left, edge(y + QR_QUIET_ZONE + 1) - top);
+    }
+  }));
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render PNG'))), 'image/png');
+  });
+}
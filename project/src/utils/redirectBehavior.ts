@@ -0,0 +1,53 @@
+import { RedirectBehavior, RedirectMode } from '../types';
+
+export const REDIRECT_MODES: { value: RedirectMode; label: string }[] = [
+  { value: 'instant', label: 'Redirect instantly' },
+  { value: 'countdown', label: 'Show a page with a countdown' },
+  { value: 'confirm', label: 'Show a page and wait for a click' }
+];
+
+export const DEFAULT_COUNTDOWN_SECONDS = 5;
+export const MAX_COUNTDOWN_SECONDS = 60;
+export const MAX_INTERSTITIAL_TITLE_LENGTH = 100;
+export const MAX_INTERSTITIAL_DESCRIPTION_LENGTH = 500;
+
+export const DEFAULT_REDIRECT_BEHAVIOR: RedirectBehavior = { mode: 'instant', countdownSeconds: DEFAULT_COUNTDOWN_SECONDS };
+
+/** Trims the custom text and drops it when empty. */
+export function normalizeRedirectBehavior(behavior: RedirectBehavior): RedirectBehavior {
+  const title = behavior.title?.trim();
+  const description = behavior.description?.trim();
+  return {
+    mode: behavior.mode,
+    countdownSeconds: behavior.countdownSeconds,
+    ...(title ? { title } : {}),
+    ...(description ? { description } : {})
+  };
+}
+
+/** Returns why the redirect behaviour can't be saved, or null. */
+export function findRedirectBehaviorError(behavior: RedirectBehavior): string | null {
+  if (!REDIRECT_MODES.some(mode => mode.value === behavior.mode)) {
+    return `Redirect mode must be one of ${REDIRECT_MODES.map(mode => mode.value).join(', ')}`;
+  }
+  const { countdownSeconds } = behavior;
+  if (!(Number.isInteger(countdownSeconds) && countdownSeconds >= 1 && countdownSeconds <= MAX_COUNTDOWN_SECONDS)) {
+    return `Countdown must be a whole number of seconds from 1 to ${MAX_COUNTDOWN_SECONDS}`;
+  }
+  if ((behavior.title?.length ?? 0) > MAX_INTERSTITIAL_TITLE_LENGTH) {
+    return `Page title must be at most ${MAX_INTERSTITIAL_TITLE_LENGTH} characters`;
+  }
+  if ((behavior.description?.length ?? 0) > MAX_INTERSTITIAL_DESCRIPTION_LENGTH) {
+    return `Page description must be at most ${MAX_INTERSTITIAL_DESCRIPTION_LENGTH} characters`;
+  }
+  return null;
+}
+
+/** e.g. "countdown (10s), title: Heads up" */
+export function formatRedirectBehavior(behavior: RedirectBehavior): string {
+  return [
+    behavior.mode === 'countdown' ? `countdown (${behavior.countdownSeconds}s)` : behavior.mode,
+    ...(behavior.mode !== 'instant' && behavior.title ? [`title: ${behavior.title}`] : []),
+    ...(behavior.mode !== 'instant' && behavior.description ? [`description: ${behavior.description}`] : [])
+  ].join(', ');
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { RoutingRule } from '../types';
+import { makeLink } from '../test/links';
+import { detectPlatforms, resolveDestination } from './routing';
+
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148';
+const ANDROID = 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/120.0 Mobile Safari/537.36';
+const WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36';
+
+const noon = new Date('2024-01-01T12:00:00.000Z');
+const visitor = (fields: Partial<Parameters<typeof resolveDestination>[1]> = {}) => ({ userAgent: WINDOWS, timeZone: 'UTC', time: noon, ...fields });
+const rule = (id: string, fields: Partial<RoutingRule>): RoutingRule => ({ id, destination: `https://${id}.example/`, ...fields });
+
+describe('detectPlatforms', () => {
+  it('puts phones under their OS and mobile, computers under their OS and desktop', () => {
+    expect(detectPlatforms(IPHONE)).toEqual(['ios', 'mobile']);
+    expect(detectPlatforms(ANDROID)).toEqual(['android', 'mobile']);
+    expect(detectPlatforms(WINDOWS)).toEqual(['windows', 'desktop']);
+    expect(detectPlatforms('curl/8.0')).toEqual([]);
+  });
+});
+
+describe('resolveDestination', () => {
+  it('sends visitors no rule matches to the original URL', () => {
+    const url = makeLink({ routingRules: [rule('ios', { platforms: ['ios'] })] });
+
+    expect(resolveDestination(url, visitor())).toEqual({ destination: 'https://example.com/', variant: undefined });
+  });
+
+  it('uses the first matching rule', () => {
+    const url = makeLink({ routingRules: [rule('mobile', { platforms: ['mobile'] }), rule('android', { platforms: ['android'] })] });
+
+    const resolved = resolveDestination(url, visitor({ userAgent: ANDROID }));
+
+    expect(resolved.destination).toBe('https://mobile.example/');
+    expect(resolved.rule?.id).toBe('mobile');
+  });
+
+  it('matches a language and its regional variants, but not the other way round', () => {
+    const url = makeLink({ routingRules: [rule('pt', { languages: ['pt'] }), rule('en-gb', { languages: ['en-GB'] })] });
+
+    expect(resolveDestination(url, visitor({ language: 'pt-BR' })).rule?.id).toBe('pt');
+    expect(resolveDestination(url, visitor({ language: 'en-gb' })).rule?.id).toBe('en-gb');
+    expect(resolveDestination(url, visitor({ language: 'en' })).rule).toBeUndefined();
+    expect(resolveDestination(url, visitor()).rule).toBeUndefined();
+  });
+
+  it('requires every condition of a rule to match', () => {
+    const url = makeLink({ routingRules: [rule('ios-fr', { platforms: ['ios'], languages: ['fr'] })] });
+
+    expect(resolveDestination(url, visitor({ userAgent: IPHONE, language: 'fr-FR' })).rule?.id).toBe('ios-fr');
+    expect(resolveDestination(url, visitor({ userAgent: IPHONE, language: 'de' })).rule).toBeUndefined();
+    expect(resolveDestination(url, visitor({ userAgent: WINDOWS, language: 'fr' })).rule).toBeUndefined();
+  });
+
+  it('matches time ranges in the visitor\'s time zone, including ones that wrap past midnight', () => {
+    const url = makeLink({ routingRules: [rule('night', { timeRange: { from: '22:00', to: '06:00' } })] });
+
+    // 12:00 UTC is 21:00 in Tokyo and 23:00 in Auckland (summer time)
+    expect(resolveDestination(url, visitor({ timeZone: 'Asia/Tokyo' })).rule).toBeUndefined();
+    expect(resolveDestination(url, visitor({ timeZone: 'Pacific/Auckland' })).rule?.id).toBe('night');
+    expect(resolveDestination(url, visitor({ time: new Date('2024-01-01T05:59:00.000Z') })).rule?.id).toBe('night');
+    expect(resolveDestination(url, visitor({ time: new Date('2024-01-01T06:00:00.000Z') })).rule).toBeUndefined();
+  });
+
+  it('lets a matching rule win over the split', () => {
+    const url = makeLink({
+      routingRules: [rule('ios', { platforms: ['ios'] })],
+      variants: [{ id: 'a', destination: 'https://a.example/', weight: 1 }]
+    });
+
+    expect(resolveDestination(url, visitor({ userAgent: IPHONE, visitorId: 'v' })).destination).toBe('https://ios.example/');
+    expect(resolveDestination(url, visitor({ visitorId: 'v' })).variant?.id).toBe('a');
+  });
+});
@@ -0,0 +1,169 @@
+import { ClickContext, RoutingPlatform, RoutingRule, ShortenedURL, SplitVariant } from '../types';
+import { getVisitorId, pickVariant } from './splitTest';
+
+export const ROUTING_PLATFORMS: { value: RoutingPlatform; label: string }[] = [
+  { value: 'ios', label: 'iOS' },
+  { value: 'android', label: 'Android' },
+  { value: 'windows', label: 'Windows' },
+  { value: 'macos', label: 'macOS' },
+  { value: 'linux', label: 'Linux' },
+  { value: 'mobile', label: 'Any mobile' },
+  { value: 'desktop', label: 'Any desktop' }
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface RoutingVisitor {
+  userAgent: string;
+  language?: string;
+  timeZone?: string;
+  /** Keeps the visitor on the same split variant; a random variant is picked without it. */
+  visitorId?: string;
+  time: Date;
+}
+
+/** Platforms a user agent belongs to, e.g. an iPhone is both `ios` and `mobile`. */
+export function detectPlatforms(userAgent: string): RoutingPlatform[] {
+  if (/iPhone|iPad|iPod/i.test(userAgent)) {
+    return ['ios', 'mobile'];
+  }
+  if (/Android/i.test(userAgent)) {
+    return ['android', 'mobile'];
+  }
+  if (/Windows/i.test(userAgent)) {
+    return ['windows', 'desktop'];
+  }
+  if (/Macintosh|Mac OS X/i.test(userAgent)) {
+    return ['macos', 'desktop'];
+  }
+  if (/Linux|X11|CrOS/i.test(userAgent)) {
+    return ['linux', 'desktop'];
+  }
+  return [];
+}
+
+function matchesLanguage(wanted: string, language: string): boolean {
+  const a = wanted.toLowerCase();
+  const b = language.toLowerCase();
+  return b === a || b.startsWith(`${a}-`);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Minutes since midnight in the given time zone, or the local one when it is unknown. */
+function minutesOfDay(time: Date, timeZone?: string): number {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+        .formatToParts(time);
+      const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+      return part('hour') * 60 + part('minute');
+    } catch {
+      // Unknown time zone; fall back to local time
+    }
+  }
+  return time.getHours() * 60 + time.getMinutes();
+}
+
+function matchesRule(rule: RoutingRule, visitor: RoutingVisitor, platforms: RoutingPlatform[]): boolean {
+  if (rule.platforms?.length && !rule.platforms.some(platform => platforms.includes(platform))) {
+    return false;
+  }
+  if (rule.languages?.length) {
+    const { language } = visitor;
+    if (!language || !rule.languages.some(wanted => matchesLanguage(wanted, language))) {
+      return false;
+    }
+  }
+  if (rule.timeRange) {
+    const now = minutesOfDay(visitor.time, visitor.timeZone);
+    const from = toMinutes(rule.timeRange.from);
+    const to = toMinutes(rule.timeRange.to);
+    const inRange = from <= to ? now >= from && now < to : now >= from || now < to;
+    if (!inRange) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function matchRoutingRule(rules: RoutingRule[], visitor: RoutingVisitor): RoutingRule | undefined {
+  const platforms = detectPlatforms(visitor.userAgent);
+  return rules.find(rule => matchesRule(rule, visitor, platforms));
+}
+
+export interface Destination {
+  destination: string;
+  rule?: RoutingRule;
+  variant?: SplitVariant;
+}
+
+/** Where a visitor should be sent: a matching routing rule wins, then the split, then `originalUrl`. */
+export function resolveDestination(url: ShortenedURL, visitor: RoutingVisitor): Destination {
+  const rule = matchRoutingRule(url.routingRules, visitor);
+  if (rule) {
+    return { destination: rule.destination, rule };
+  }
+  const variant = pickVariant(url.variants, url.id, visitor.visitorId);
+  return { destination: variant?.destination ?? url.originalUrl, variant };
+}
+
+/** Language, time zone and visitor id of the current browser, for matching rules and split variants. */
+export function getBrowserContext(): ClickContext {
+  return {
+    language: navigator.language,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    visitorId: getVisitorId()
+  };
+}
+
+/** Trims rule values, drops empty conditions and gives new rules an id. */
+export function normalizeRoutingRules(rules: RoutingRule[]): RoutingRule[] {
+  return rules.map(rule => {
+    const languages = (rule.languages ?? []).map(language => language.trim()).filter(language => language !== '');
+    return {
+      id: rule.id || crypto.randomUUID(),
+      destination: rule.destination.trim(),
+      ...(rule.platforms?.length ? { platforms: [...new Set(rule.platforms)] } : {}),
+      ...(languages.length ? { languages } : {}),
+      ...(rule.timeRange ? { timeRange: { from: rule.timeRange.from, to: rule.timeRange.to } } : {})
+    };
+  });
+}
+
+/** Returns why a (normalized) rule's conditions are invalid, or null. Destinations are checked by the caller. */
+export function findRuleConditionError(rule: RoutingRule): string | null {
+  if (!rule.platforms && !rule.languages && !rule.timeRange) {
+    return 'needs at least one condition';
+  }
+  if (rule.platforms?.some(platform => !ROUTING_PLATFORMS.some(p => p.value === platform))) {
+    return 'has an unknown platform';
+  }
+  if (rule.languages?.some(language => !/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(language))) {
+    return 'has an invalid language tag';
+  }
+  if (rule.timeRange) {
+    const { from, to } = rule.timeRange;
+    if (!TIME_PATTERN.test(from) || !TIME_PATTERN.test(to) || from === to) {
+      return 'needs a time range as two different HH:mm times';
+    }
+  }
+  return null;
+}
+
+export function describeRule(rule: RoutingRule): string {
+  const conditions: string[] = [];
+  if (rule.platforms?.length) {
+    conditions.push(rule.platforms.map(platform => ROUTING_PLATFORMS.find(p => p.value === platform)?.label ?? platform).join(' / '));
+  }
+  if (rule.languages?.length) {
+    conditions.push(rule.languages.join(' / '));
+  }
+  if (rule.timeRange) {
+    conditions.push(`${rule.timeRange.from}–${rule.timeRange.to}`);
+  }
+  return conditions.join(', ');
+}
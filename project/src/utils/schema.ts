@@ -0,0 +1,158 @@
+export type RawRecord = Record<string, unknown>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (record: RawRecord) => RawRecord;
+}
+
+export interface StoredEnvelope {
+  version: number;
+  savedAt: string;
+  records: unknown[];
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  store: string;
+  reason: string;
+  raw: unknown;
+  version: number;
+  quarantinedAt: string;
+}
+
+export interface DecodeResult<T> {
+  records: T[];
+  quarantined: QuarantinedRecord[];
+  version: number;
+  migrated: boolean;
+}
+
+export const QUARANTINE_STORAGE_KEY = 'url_shortener_quarantine';
+
+export function latestVersion(migrations: Migration[]): number {
+  return migrations.reduce((max, migration) => Math.max(max, migration.version), 0);
+}
+
+function quarantine(store: string, reason: string, raw: unknown, version: number): QuarantinedRecord {
+  return {
+    id: crypto.randomUUID(),
+    store,
+    reason,
+    raw,
+    version,
+    quarantinedAt: new Date().toISOString()
+  };
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Parses a persisted store, runs every migration newer than the stored version
+ * in order and revives each record. Records that fail any step are returned in
+ * `quarantined` instead of discarding the rest of the store. Data written
+ * before envelopes existed (a bare array) is treated as version 0.
+ */
+export function decodeEnvelope<T>(
+  store: string,
+  data: string,
+  migrations: Migration[],
+  revive: (record: RawRecord) => T
+): DecodeResult<T> {
+  const target = latestVersion(migrations);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error) {
+    return { records: [], quarantined: [quarantine(store, `Unreadable JSON: ${describe(error)}`, data, -1)], version: target, migrated: true };
+  }
+
+  let version: number;
+  let rawRecords: unknown[];
+  if (Array.isArray(parsed)) {
+    version = 0;
+    rawRecords = parsed;
+  } else if (parsed && typeof parsed === 'object' && Array.isArray((parsed as StoredEnvelope).records)) {
+    version = Number((parsed as StoredEnvelope).version) || 0;
+    rawRecords = (parsed as StoredEnvelope).records;
+  } else {
+    return { records: [], quarantined: [quarantine(store, 'Unrecognized store format', parsed, -1)], version: target, migrated: true };
+  }
+
+  if (version > target) {
+    const reason = `Schema version ${version} is newer than supported version ${target}`;
+    return { records: [], quarantined: [quarantine(store, reason, parsed, version)], version: target, migrated: true };
+  }
+
+  const pending = migrations
+    .filter(migration => migration.version > version)
+    .sort((a, b) => a.version - b.version);
+
+  const records: T[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  rawRecords.forEach(raw => {
+    if (!raw || typeof raw !== 'object') {
+      quarantined.push(quarantine(store, 'Record is not an object', raw, version));
+      return;
+    }
+
+    let current = raw as RawRecord;
+    let stage = '';
+    try {
+      for (const migration of pending) {
+        stage = `Migration to v${migration.version}`;
+        current = migration.migrate(current);
+      }
+      stage = 'Revive';
+      records.push(revive(current));
+    } catch (error) {
+      quarantined.push(quarantine(store, `${stage} failed: ${describe(error)}`, raw, version));
+    }
+  });
+
+  return { records, quarantined, version: target, migrated: pending.length > 0 || quarantined.length > 0 };
+}
+
+export function reviveDate(value: unknown, field: string): Date {
+  const date = new Date(value as string);
+  if (value === undefined || value === null || isNaN(date.getTime())) {
+    throw new Error(`Invalid date in ${field}`);
+  }
+  return date;
+}
+
+export function requireString(record: RawRecord, field: string): string {
+  const value = record[field];
+  if (typeof value !== 'string' || value === '') {
+    throw new Error(`Missing ${field}`);
+  }
+  return value;
+}
+
+export function createEnvelope(records: unknown[], migrations: Migration[]): StoredEnvelope {
+  return {
+    version: latestVersion(migrations),
+    savedAt: new Date().toISOString(),
+    records
+  };
+}
+
+export function encodeEnvelope(records: unknown[], migrations: Migration[]): string {
+  return JSON.stringify(createEnvelope(records, migrations));
+}
+
+export function parseQuarantine(data: string | null): QuarantinedRecord[] {
+  if (!data) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
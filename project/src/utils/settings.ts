@@ -0,0 +1,59 @@
+import { AppSettings } from '../types';
+import { logger } from './logger';
+import { DEFAULT_TRASH_RETENTION_DAYS } from './urlShortener';
+import { DEFAULT_SHORTCODE_OPTIONS } from './shortcodes';
+import { DEFAULT_DESTINATION_POLICY } from './destinationPolicy';
+
+const SETTINGS_STORAGE_KEY = 'url_shortener_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  shortcodes: DEFAULT_SHORTCODE_OPTIONS,
+  destinations: DEFAULT_DESTINATION_POLICY,
+  domains: [],
+  notFoundFallbackUrl: ''
+};
+
+class SettingsStore {
+  private settings: AppSettings = { ...DEFAULT_SETTINGS };
+  private listeners: ((settings: AppSettings) => void)[] = [];
+
+  constructor() {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+    try {
+      const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        this.settings = { ...DEFAULT_SETTINGS, ...parsed, shortcodes: { ...DEFAULT_SETTINGS.shortcodes, ...parsed.shortcodes } };
+      }
+    } catch (error) {
+      console.warn('Failed to load settings from localStorage:', error);
+    }
+  }
+
+  get(): AppSettings {
+    return { ...this.settings };
+  }
+
+  update(changes: Partial<AppSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      logger.error('Failed to persist settings', error, 'Settings');
+    }
+    logger.info('Settings updated', changes, 'Settings');
+    this.listeners.forEach(listener => listener(this.get()));
+  }
+
+  subscribe(listener: (settings: AppSettings) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+}
+
+export const settingsStore = new SettingsStore();
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalShortcode, findShortcodeError } from './shortcodePolicy';
+
+describe('findShortcodeError', () => {
+  it('accepts letters, digits, hyphens and underscores', () => {
+    for (const shortCode of ['a', 'Promo2024', 'spring-sale', 'big_deal', 'a'.repeat(20)]) {
+      expect(findShortcodeError(shortCode)).toBeNull();
+    }
+  });
+
+  it('requires a code of at most 20 characters', () => {
+    expect(findShortcodeError('')).toBe('Shortcode is required');
+    expect(findShortcodeError('a'.repeat(21))).toBe('Shortcode must be at most 20 characters');
+  });
+
+  it('rejects other characters', () => {
+    for (const shortCode of ['two words', 'slash/code', 'café', 'dot.code']) {
+      expect(findShortcodeError(shortCode)).toBe('Shortcode can only contain letters, digits, hyphens (-) and underscores (_)');
+    }
+  });
+
+  it('requires a letter or digit at both ends', () => {
+    for (const shortCode of ['-promo', 'promo_', '-']) {
+      expect(findShortcodeError(shortCode)).toBe('Shortcode must start and end with a letter or digit');
+    }
+  });
+
+  it('rejects the app\'s own paths in any case', () => {
+    expect(findShortcodeError('statistics')).toBe('"statistics" is reserved for the app\'s own pages');
+    expect(findShortcodeError('API')).toBe('"API" is reserved for the app\'s own pages');
+    expect(findShortcodeError('api-docs')).toBeNull();
+  });
+
+  it('rejects blocked words anywhere, including spelled with digits or split up', () => {
+    for (const shortCode of ['SHIT', 'holyshit', 'sh1t', 'sh-it']) {
+      expect(findShortcodeError(shortCode)).toBe('Shortcode contains a blocked word');
+    }
+  });
+
+  it('rejects short blocked words only as a whole code or part, since they turn up inside harmless ones', () => {
+    for (const shortCode of ['ass', 'my-ass', '4ss_hat']) {
+      expect(findShortcodeError(shortCode)).toBe('Shortcode contains a blocked word');
+    }
+    for (const shortCode of ['class', 'bass-guitar', 'cocktail', 'passport']) {
+      expect(findShortcodeError(shortCode)).toBeNull();
+    }
+  });
+});
+
+describe('canonicalShortcode', () => {
+  it('folds case only when codes are case-insensitive', () => {
+    expect(canonicalShortcode('Promo', true)).toBe('promo');
+    expect(canonicalShortcode('Promo', false)).toBe('Promo');
+  });
+});
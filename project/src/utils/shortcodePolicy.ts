@@ -0,0 +1,56 @@
+/**
+ * Rules every shortcode must follow, whether typed in the form, sent to the
+ * API or generated. Shared by URLForm, URLEditor and URLShortenerService.
+ */
+
+export const MAX_SHORTCODE_LENGTH = 20;
+
+/** Paths the app and the API server use themselves. */
+export const RESERVED_SHORTCODES = ['s', 'go', 'api', 'admin', 'assets', 'statistics', 'logs', 'settings'];
+
+/** Blocked wherever they appear in a code. */
+const BLOCKED_WORDS = ['fuck', 'shit', 'cunt', 'nigger', 'nigga', 'faggot', 'whore'];
+/** Blocked only as a whole code or a whole hyphen/underscore-separated part, since they turn up inside harmless words. */
+const BLOCKED_PARTS = ['ass', 'bitch', 'cock', 'dick', 'fag', 'piss', 'porn', 'retard', 'slut', 'twat', 'wank'];
+
+const LOOKALIKE_LETTERS: Record<string, string> = { 0: 'o', 1: 'i', 3: 'e', 4: 'a', 5: 's', 7: 't', 8: 'b' };
+
+/** Lowercases and undoes digit-for-letter swaps (sh1t, 4ss) before checking the blocklist. */
+function deobfuscate(value: string): string {
+  return value.toLowerCase().replace(/[0134578]/g, digit => LOOKALIKE_LETTERS[digit]);
+}
+
+function containsBlockedWord(shortCode: string): boolean {
+  const parts = shortCode.split(/[-_]+/).map(deobfuscate);
+  const joined = parts.join('');
+  return BLOCKED_WORDS.some(word => joined.includes(word)) ||
+    [joined, ...parts].some(part => BLOCKED_PARTS.includes(part));
+}
+
+/** Returns why a shortcode can't be used, or null. Uniqueness is checked separately. */
+export function findShortcodeError(shortCode: string): string | null {
+  if (shortCode.length === 0) {
+    return 'Shortcode is required';
+  }
+  if (shortCode.length > MAX_SHORTCODE_LENGTH) {
+    return `Shortcode must be at most ${MAX_SHORTCODE_LENGTH} characters`;
+  }
+  if (!/^[a-zA-Z0-9_-]+$/.test(shortCode)) {
+    return 'Shortcode can only contain letters, digits, hyphens (-) and underscores (_)';
+  }
+  if (!/^[a-zA-Z0-9](.*[a-zA-Z0-9])?$/.test(shortCode)) {
+    return 'Shortcode must start and end with a letter or digit';
+  }
+  if (RESERVED_SHORTCODES.includes(shortCode.toLowerCase())) {
+    return `"${shortCode}" is reserved for the app's own pages`;
+  }
+  if (containsBlockedWord(shortCode)) {
+    return 'Shortcode contains a blocked word';
+  }
+  return null;
+}
+
+/** The form shortcodes are compared in: lowercased when case doesn't matter, so `Promo` and `promo` are the same link. */
+export function canonicalShortcode(shortCode: string, caseInsensitive: boolean): string {
+  return caseInsensitive ? shortCode.toLowerCase() : shortCode;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { ShortcodeOptions } from '../types';
+import { DEFAULT_SHORTCODE_OPTIONS, SHORTCODE_ALPHABETS, encodeSequence, findShortcodeOptionsError, generateShortcode } from './shortcodes';
+
+const options = (fields: Partial<ShortcodeOptions> = {}): ShortcodeOptions => ({ ...DEFAULT_SHORTCODE_OPTIONS, ...fields });
+const request = (fields: { taken?: string[]; sequence?: number; originalUrl?: string } = {}) => ({
+  originalUrl: fields.originalUrl ?? 'https://example.com/',
+  taken: new Set(fields.taken ?? []),
+  sequence: fields.sequence ?? 0
+});
+
+describe('findShortcodeOptionsError', () => {
+  it('accepts the defaults', () => {
+    expect(findShortcodeOptionsError(DEFAULT_SHORTCODE_OPTIONS)).toBeNull();
+  });
+
+  it('rejects unknown strategies and alphabets', () => {
+    expect(findShortcodeOptionsError(options({ strategy: 'magic' as ShortcodeOptions['strategy'] }))).toBe('Unknown shortcode strategy "magic"');
+    expect(findShortcodeOptionsError(options({ alphabet: 'emoji' as ShortcodeOptions['alphabet'] }))).toBe('Unknown shortcode alphabet "emoji"');
+  });
+
+  it('rejects lengths outside 3 to 20', () => {
+    for (const length of [2, 21, 4.5]) {
+      expect(findShortcodeOptionsError(options({ length }))).toBe('Shortcode length must be a whole number from 3 to 20');
+    }
+  });
+});
+
+describe('encodeSequence', () => {
+  it('writes the number in the alphabet\'s base, padded to the length', () => {
+    const { base62 } = SHORTCODE_ALPHABETS;
+
+    expect(encodeSequence(0, base62, 3)).toBe('000');
+    expect(encodeSequence(61, base62, 3)).toBe('00Z');
+    expect(encodeSequence(62, base62, 3)).toBe('010');
+    expect(encodeSequence(62 ** 3, base62, 3)).toBe('1000');
+  });
+});
+
+describe('generateShortcode', () => {
+  describe('sequential', () => {
+    const sequential = options({ strategy: 'sequential', length: 3, alphabet: 'lowercase' });
+
+    it('counts up from the stored sequence', () => {
+      expect(generateShortcode(sequential, request({ sequence: 37 }))).toEqual({ shortCode: '011', sequence: 38, attempts: 1 });
+    });
+
+    it('skips codes that are taken or that the policy rejects', () => {
+      // "api" is 10·36² + 25·36 + 18 in base 36
+      const api = 10 * 36 ** 2 + 25 * 36 + 18;
+
+      expect(generateShortcode(sequential, request({ sequence: api }))).toEqual({ shortCode: 'apj', sequence: api + 2, attempts: 2 });
+      expect(generateShortcode(sequential, request({ sequence: 0, taken: ['000', '001'] }))).toEqual({ shortCode: '002', sequence: 3, attempts: 3 });
+    });
+
+    it('compares with taken codes in their canonical form', () => {
+      const base62 = options({ strategy: 'sequential', length: 3, caseInsensitive: true });
+
+      // 36 is "00A" in base62, which "00a" already takes once case is ignored
+      expect(generateShortcode(base62, request({ sequence: 36, taken: ['00a'] }))?.shortCode).toBe('00B');
+    });
+  });
+
+  describe('random', () => {
+    it('makes codes of the configured length from the configured alphabet', () => {
+      const unambiguous = options({ length: 8, alphabet: 'unambiguous' });
+
+      for (let i = 0; i < 50; i++) {
+        const generated = generateShortcode(unambiguous, request());
+        expect(generated?.shortCode).toMatch(/^[2-9a-km-zA-HJ-NP-Z]{8}$/);
+      }
+    });
+
+    it('doesn\'t repeat itself', () => {
+      const codes = Array.from({ length: 100 }, () => generateShortcode(options(), request())?.shortCode);
+
+      expect(new Set(codes).size).toBe(100);
+    });
+
+    it('moves to longer codes once half of the configured length is used', () => {
+      const lowercase = options({ length: 3, alphabet: 'lowercase' });
+      const taken = Array.from({ length: 36 ** 3 / 2 }, (_, i) => encodeSequence(i, SHORTCODE_ALPHABETS.lowercase, 3));
+
+      expect(generateShortcode(lowercase, request({ taken }))?.shortCode).toHaveLength(4);
+    });
+  });
+
+  describe('hash', () => {
+    const hashed = options({ strategy: 'hash' });
+
+    it('gives the same destination the same code', () => {
+      const first = generateShortcode(hashed, request({ originalUrl: 'https://example.com/a' }));
+
+      expect(first?.shortCode).toMatch(/^[0-9a-zA-Z]{6}$/);
+      expect(generateShortcode(hashed, request({ originalUrl: 'https://example.com/a' }))).toEqual(first);
+      expect(generateShortcode(hashed, request({ originalUrl: 'https://example.com/b' }))?.shortCode).not.toBe(first?.shortCode);
+    });
+
+    it('derives another code when the first one is taken', () => {
+      const first = generateShortcode(hashed, request({ originalUrl: 'https://example.com/a' }))?.shortCode ?? '';
+      const second = generateShortcode(hashed, request({ originalUrl: 'https://example.com/a', taken: [first] }));
+
+      expect(second?.shortCode).not.toBe(first);
+      expect(second?.attempts).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { ShortcodeAlphabet, ShortcodeOptions, ShortcodeStrategy } from '../types';
+import { MAX_SHORTCODE_LENGTH, canonicalShortcode, findShortcodeError } from './shortcodePolicy';
+
+export const SHORTCODE_ALPHABETS: Record<ShortcodeAlphabet, string> = {
+  base62: '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  lowercase: '0123456789abcdefghijklmnopqrstuvwxyz',
+  unambiguous: '23456789abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ'
+};
+
+export const SHORTCODE_STRATEGIES: { value: ShortcodeStrategy; label: string; description: string }[] = [
+  { value: 'random', label: 'Random', description: 'Unguessable codes from a secure random source' },
+  { value: 'sequential', label: 'Sequential', description: 'Counts up, so codes stay as short as possible (and are easy to guess)' },
+  { value: 'hash', label: 'From URL', description: 'Derived from the destination, so the same URL tends to get the same code' }
+];
+
+export const SHORTCODE_ALPHABET_LABELS: Record<ShortcodeAlphabet, string> = {
+  base62: 'Letters and digits',
+  lowercase: 'Lowercase letters and digits',
+  unambiguous: 'Without look-alikes (0/O, 1/l/I)'
+};
+
+export const MIN_SHORTCODE_LENGTH = 3;
+
+export const DEFAULT_SHORTCODE_OPTIONS: ShortcodeOptions = {
+  strategy: 'random',
+  length: 6,
+  alphabet: 'base62',
+  caseInsensitive: false
+};
+
+/** Random and hashed codes move to the next length once this share of the current one is used. */
+const KEYSPACE_FILL_LIMIT = 0.5;
+/** Collisions tolerated at one length before trying a longer one. */
+const ATTEMPTS_PER_LENGTH = 10;
+
+/** Returns why a set of shortcode options is invalid, or null. */
+export function findShortcodeOptionsError(options: ShortcodeOptions): string | null {
+  if (!SHORTCODE_STRATEGIES.some(strategy => strategy.value === options.strategy)) {
+    return `Unknown shortcode strategy "${options.strategy}"`;
+  }
+  if (!(options.alphabet in SHORTCODE_ALPHABETS)) {
+    return `Unknown shortcode alphabet "${options.alphabet}"`;
+  }
+  if (!(Number.isInteger(options.length) && options.length >= MIN_SHORTCODE_LENGTH && options.length <= MAX_SHORTCODE_LENGTH)) {
+    return `Shortcode length must be a whole number from ${MIN_SHORTCODE_LENGTH} to ${MAX_SHORTCODE_LENGTH}`;
+  }
+  return null;
+}
+
+/** Writes `value` in the alphabet's base, padded to `length` with its first character. */
+export function encodeSequence(value: number, alphabet: string, length: number): string {
+  let result = '';
+  let rest = value;
+  do {
+    result = alphabet[rest % alphabet.length] + result;
+    rest = Math.floor(rest / alphabet.length);
+  } while (rest > 0);
+  return result.padStart(length, alphabet[0]);
+}
+
+function randomCode(alphabet: string, length: number): string {
+  // Reject bytes past the last whole multiple of the alphabet so every character is equally likely
+  const limit = 256 - (256 % alphabet.length);
+  let result = '';
+  while (result.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length * 2))) {
+      if (byte < limit && result.length < length) {
+        result += alphabet[byte % alphabet.length];
+      }
+    }
+  }
+  return result;
+}
+
+/** cyrb53: a fast 53-bit string hash. Only needs to spread codes evenly, not resist attacks. */
+function hash53(value: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+function hashCode(input: string, alphabet: string, length: number): string {
+  let result = '';
+  for (let block = 0; result.length < length; block++) {
+    // Each 53-bit hash is good for about eight characters
+    let hash = hash53(`${input}:${block}`);
+    for (let i = 0; i < 8 && result.length < length; i++) {
+      result += alphabet[hash % alphabet.length];
+      hash = Math.floor(hash / alphabet.length);
+    }
+  }
+  return result;
+}
+
+export interface ShortcodeRequest {
+  /** Destination of the new link; the `hash` strategy derives the code from it. */
+  originalUrl: string;
+  /** Shortcodes already in use, in their canonical form (see `canonicalShortcode`). */
+  taken: ReadonlySet<string>;
+  /** Next value of the `sequential` counter. */
+  sequence: number;
+}
+
+export interface GeneratedShortcode {
+  shortCode: string;
+  /** Counter value to continue from next time. */
+  sequence: number;
+  attempts: number;
+}
+
+/**
+ * Makes a shortcode that isn't taken and passes the shortcode policy. Instead
+ * of giving up when codes of the configured length run low, it moves on to
+ * longer ones; null only once every length up to the maximum is exhausted.
+ */
+export function generateShortcode(options: ShortcodeOptions, request: ShortcodeRequest): GeneratedShortcode | null {
+  const alphabet = SHORTCODE_ALPHABETS[options.alphabet];
+  const isUnavailable = (shortCode: string) =>
+    request.taken.has(canonicalShortcode(shortCode, options.caseInsensitive)) || findShortcodeError(shortCode) !== null;
+
+  if (options.strategy === 'sequential') {
+    // The counter simply gains a character when it outgrows the length
+    let sequence = request.sequence;
+    let attempts = 0;
+    let shortCode;
+    do {
+      shortCode = encodeSequence(sequence++, alphabet, options.length);
+      attempts++;
+    } while (isUnavailable(shortCode));
+    return { shortCode, sequence, attempts };
+  }
+
+  // Without case, letters that differ only in case count once
+  const distinctCharacters = new Set(canonicalShortcode(alphabet, options.caseInsensitive)).size;
+  let attempts = 0;
+  for (let length = options.length; length <= MAX_SHORTCODE_LENGTH; length++) {
+    const used = [...request.taken].filter(code => code.length === length).length;
+    if (used >= distinctCharacters ** length * KEYSPACE_FILL_LIMIT) {
+      continue;
+    }
+    for (let i = 0; i < ATTEMPTS_PER_LENGTH; i++) {
+      attempts++;
+      const shortCode = options.strategy === 'hash'
+        ? hashCode(i === 0 ? request.originalUrl : `${request.originalUrl}#${i}`, alphabet, length)
+        : randomCode(alphabet, length);
+      if (!isUnavailable(shortCode)) {
+        return { shortCode, sequence: request.sequence, attempts };
+      }
+    }
+  }
+
+  return null;
+}
+
+/** Lowercase words joined by hyphens, cut to fit a shortcode. */
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SHORTCODE_LENGTH)
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Alternatives to a taken shortcode, built from the destination's domain and
+ * last path segment, then numbered variants of the code itself. Every one
+ * passes the shortcode policy; whether it is free is up to the caller.
+ */
+export function suggestShortcodes(shortCode: string, originalUrl?: string): string[] {
+  let domain = '';
+  let page = '';
+  try {
+    const url = new URL(originalUrl ?? '');
+    // shop.example.com and example.co.uk both give "example"
+    const labels = url.hostname.split('.');
+    const last = labels.length - 1;
+    domain = slugify(labels.length > 2 && labels[last - 1].length <= 3 ? labels[last - 2] : labels[Math.max(0, last - 1)]);
+    const segments = url.pathname.split('/').filter(Boolean);
+    page = slugify(decodeURIComponent(segments[segments.length - 1] ?? '').replace(/\.[a-z0-9]+$/i, ''));
+  } catch {
+    // No usable destination: only numbered variants
+  }
+
+  const base = shortCode.slice(0, MAX_SHORTCODE_LENGTH - 3).replace(/[-_]+$/, '');
+  const candidates = [
+    page,
+    domain && page && `${domain}-${page}`,
+    domain && `${base}-${domain}`,
+    page && `${base}-${page}`,
+    domain,
+    ...Array.from({ length: 8 }, (_, i) => `${base}-${i + 2}`)
+  ].map(candidate => candidate.slice(0, MAX_SHORTCODE_LENGTH).replace(/[-_]+$/, ''));
+
+  return [...new Set(candidates)].filter(candidate => candidate && candidate !== shortCode && findShortcodeError(candidate) === null);
+}
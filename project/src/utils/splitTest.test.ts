@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ClickData, SplitVariant } from '../types';
+import { checkSplitBalance, getVariantStats, pickVariant } from './splitTest';
+
+const variants: SplitVariant[] = [
+  { id: 'a', destination: 'https://a.example/', weight: 70 },
+  { id: 'b', destination: 'https://b.example/', weight: 30 }
+];
+
+const clicksOn = (variantId: string | undefined, count: number): ClickData[] => Array.from({ length: count }, (_, index) => ({
+  id: `${variantId}-${index}`,
+  timestamp: new Date('2024-01-01T00:00:00.000Z'),
+  source: 'direct',
+  location: 'Unknown',
+  userAgent: '',
+  ipAddress: '',
+  variantId
+}));
+
+describe('pickVariant', () => {
+  it('keeps giving a visitor the same variant', () => {
+    const first = pickVariant(variants, 'link-1', 'visitor-1');
+
+    for (let i = 0; i < 10; i++) {
+      expect(pickVariant(variants, 'link-1', 'visitor-1')).toBe(first);
+    }
+  });
+
+  it('spreads visitors across the variants by weight', () => {
+    // Visitor ids are random UUIDs, and 5% either way is five standard deviations at this count
+    const picks = Array.from({ length: 2000 }, () => pickVariant(variants, 'link-1', crypto.randomUUID())?.id);
+    const share = picks.filter(id => id === 'a').length / picks.length;
+
+    expect(share).toBeGreaterThan(0.65);
+    expect(share).toBeLessThan(0.75);
+  });
+
+  it('splits the same visitors independently on different links', () => {
+    const even: SplitVariant[] = variants.map(variant => ({ ...variant, weight: 1 }));
+    const onLink = (linkId: string) => Array.from({ length: 200 }, (_, index) => pickVariant(even, linkId, `visitor-${index}`)?.id);
+
+    expect(onLink('link-1')).not.toEqual(onLink('link-2'));
+  });
+
+  it('never picks a variant with no weight', () => {
+    const weighted = [{ ...variants[0], weight: 0 }, variants[1]];
+
+    for (let i = 0; i < 100; i++) {
+      expect(pickVariant(weighted, 'link-1', `visitor-${i}`)?.id).toBe('b');
+    }
+  });
+
+  it('picks nothing when no variant has weight', () => {
+    expect(pickVariant([], 'link-1', 'visitor-1')).toBeUndefined();
+    expect(pickVariant(variants.map(variant => ({ ...variant, weight: 0 })), 'link-1')).toBeUndefined();
+  });
+});
+
+describe('getVariantStats', () => {
+  it('counts only clicks the split sent', () => {
+    const stats = getVariantStats(variants, [...clicksOn('a', 3), ...clicksOn('b', 1), ...clicksOn(undefined, 4)]);
+
+    expect(stats.map(({ label, clicks, share, expectedShare }) => ({ label, clicks, share, expectedShare }))).toEqual([
+      { label: 'Variant A', clicks: 3, share: 0.75, expectedShare: 0.7 },
+      { label: 'Variant B', clicks: 1, share: 0.25, expectedShare: 0.3 }
+    ]);
+  });
+});
+
+describe('checkSplitBalance', () => {
+  const balance = (a: number, b: number) => checkSplitBalance(getVariantStats(variants, [...clicksOn('a', a), ...clicksOn('b', b)]));
+
+  it('gives no result until every variant expects a few clicks', () => {
+    expect(balance(9, 3)).toEqual({ pValue: null, skewed: false });
+    expect(checkSplitBalance(getVariantStats(variants.slice(0, 1), clicksOn('a', 100)))).toEqual({ pValue: null, skewed: false });
+  });
+
+  it('accepts a split close to the weights', () => {
+    const { pValue, skewed } = balance(72, 28);
+
+    expect(skewed).toBe(false);
+    // chi-square 0.19 with one degree of freedom
+    expect(pValue).toBeCloseTo(0.663, 2);
+  });
+
+  it('flags a split the weights can\'t explain', () => {
+    const { pValue, skewed } = balance(100, 100);
+
+    expect(skewed).toBe(true);
+    expect(pValue).toBeLessThan(0.001);
+  });
+
+  it('draws the line at the 5% level', () => {
+    // Against 70/30, 33/7 gives chi-square 2.98 (p = 0.08) and 34/6 gives 4.29 (p = 0.04)
+    expect(balance(33, 7).skewed).toBe(false);
+    expect(balance(34, 6).skewed).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import { ClickData, SplitVariant } from '../types';
+
+const VISITOR_ID_STORAGE_KEY = 'url_shortener_visitor_id';
+const SIGNIFICANCE_LEVEL = 0.05;
+/** Chi-square needs roughly this many expected clicks per variant before its result means anything. */
+const MIN_EXPECTED_CLICKS = 5;
+
+/** FNV-1a, mapped to [0, 1). Only needs to spread visitors evenly, not resist attacks. */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Picks a variant by weight. With a visitor id the choice is stable, so a
+ * returning visitor gets the same variant as long as the weights don't change.
+ */
+export function pickVariant(variants: SplitVariant[], linkId: string, visitorId?: string): SplitVariant | undefined {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (total <= 0) {
+    return undefined;
+  }
+  let point = (visitorId ? hashToUnit(`${linkId}:${visitorId}`) : Math.random()) * total;
+  for (const variant of variants) {
+    point -= variant.weight;
+    if (point < 0) {
+      return variant;
+    }
+  }
+  return variants[variants.length - 1];
+}
+
+// Used for this page load when the browser won't store an id
+let sessionVisitorId: string | undefined;
+
+/** Random id kept in this browser so split links keep showing it the same variant. */
+export function getVisitorId(): string {
+  try {
+    let visitorId = localStorage.getItem(VISITOR_ID_STORAGE_KEY);
+    if (!visitorId) {
+      visitorId = crypto.randomUUID();
+      localStorage.setItem(VISITOR_ID_STORAGE_KEY, visitorId);
+    }
+    return visitorId;
+  } catch {
+    sessionVisitorId ??= crypto.randomUUID();
+    return sessionVisitorId;
+  }
+}
+
+export function normalizeVariants(variants: SplitVariant[]): SplitVariant[] {
+  return variants.map(variant => ({
+    id: variant.id || crypto.randomUUID(),
+    destination: variant.destination.trim(),
+    weight: variant.weight,
+    ...(variant.label?.trim() ? { label: variant.label.trim() } : {})
+  }));
+}
+
+export function variantLabel(variants: SplitVariant[], variant: SplitVariant): string {
+  return variant.label ?? `Variant ${String.fromCharCode(65 + variants.indexOf(variant))}`;
+}
+
+/** Lower regularized incomplete gamma function P(a, x) (Numerical Recipes, series and continued fraction). */
+function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) {
+    return 0;
+  }
+  const logGammaA = logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 200; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) {
+        break;
+      }
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - logGammaA);
+  }
+
+  let b = x + 1 - a;
+  let c = 1e300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 200; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < 1e-300 ? 1e-300 : d;
+    c = b + an / c;
+    c = Math.abs(c) < 1e-300 ? 1e-300 : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) {
+      break;
+    }
+  }
+  return 1 - Math.exp(-x + a * Math.log(x) - logGammaA) * h;
+}
+
+/** ln Γ(a) for the whole and half-whole numbers chi-square needs: Γ(1) = 1, Γ(1/2) = √π, Γ(a + 1) = aΓ(a). */
+function logGamma(a: number): number {
+  let x = Number.isInteger(a) ? 1 : 0.5;
+  let result = Number.isInteger(a) ? 0 : Math.log(Math.PI) / 2;
+  while (x < a) {
+    result += Math.log(x);
+    x += 1;
+  }
+  return result;
+}
+
+export interface VariantStat {
+  variant: SplitVariant;
+  label: string;
+  clicks: number;
+  /** Share of the link's split clicks this variant received. */
+  share: number;
+  /** Share its weight asks for. */
+  expectedShare: number;
+}
+
+export interface SplitBalance {
+  /** Chi-square goodness-of-fit p-value for the observed split against the weights; null when there is too little data. */
+  pValue: number | null;
+  /** Clicks reach the variants in proportions the weights can't explain. */
+  skewed: boolean;
+}
+
+export function getVariantStats(variants: SplitVariant[], clicks: ClickData[]): VariantStat[] {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const splitClicks = clicks.filter(click => click.variantId !== undefined);
+  return variants.map(variant => {
+    const count = splitClicks.filter(click => click.variantId === variant.id).length;
+    return {
+      variant,
+      label: variantLabel(variants, variant),
+      clicks: count,
+      share: splitClicks.length > 0 ? count / splitClicks.length : 0,
+      expectedShare: totalWeight > 0 ? variant.weight / totalWeight : 0
+    };
+  });
+}
+
+/**
+ * Sanity check of the traffic split: tests whether the variants' click counts
+ * differ from their weights by more than chance, e.g. because many visitors
+ * share one visitor id. Every click is a visit the split itself sent, so this
+ * says nothing about which destination performs better.
+ */
+export function checkSplitBalance(stats: VariantStat[]): SplitBalance {
+  const total = stats.reduce((sum, stat) => sum + stat.clicks, 0);
+  if (stats.length < 2 || stats.some(stat => stat.expectedShare * total < MIN_EXPECTED_CLICKS)) {
+    return { pValue: null, skewed: false };
+  }
+  const chiSquare = stats.reduce((sum, stat) => {
+    const expected = stat.expectedShare * total;
+    return sum + (stat.clicks - expected) ** 2 / expected;
+  }, 0);
+  const pValue = 1 - regularizedGammaP((stats.length - 1) / 2, chiSquare / 2);
+  return { pValue, skewed: pValue < SIGNIFICANCE_LEVEL };
+}
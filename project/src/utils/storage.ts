@@ -0,0 +1,140 @@
+import { logger } from './logger';
+
+export type StorageKind = 'localStorage' | 'indexeddb' | 'memory';
+
+export interface StorageAdapter {
+  /** Backend name, used in logs. */
+  readonly kind: string;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly kind = 'localStorage' as const;
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly kind = 'memory' as const;
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+const IDB_DATABASE = 'url_shortener';
+const IDB_STORE = 'kv';
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly kind = 'indexeddb' as const;
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_DATABASE, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+}
+
+export function isStorageKindAvailable(kind: StorageKind): boolean {
+  switch (kind) {
+    case 'indexeddb': return typeof indexedDB !== 'undefined';
+    case 'localStorage': return typeof localStorage !== 'undefined';
+    case 'memory': return true;
+  }
+}
+
+export function createStorageAdapter(kind?: StorageKind): StorageAdapter {
+  const requested = kind ?? (import.meta.env?.VITE_STORAGE_BACKEND as StorageKind | undefined);
+  const resolved = requested && isStorageKindAvailable(requested)
+    ? requested
+    : (['indexeddb', 'localStorage', 'memory'] as const).find(isStorageKindAvailable)!;
+
+  if (requested && requested !== resolved) {
+    logger.warn('Requested storage backend unavailable, falling back', { requested, resolved }, 'Storage');
+  }
+
+  switch (resolved) {
+    case 'indexeddb': return new IndexedDBStorageAdapter();
+    case 'localStorage': return new LocalStorageAdapter();
+    case 'memory': return new MemoryStorageAdapter();
+  }
+}
+
+/**
+ * Moves data written by older versions (which always used localStorage) into
+ * the given adapter. Runs once: the localStorage copy is removed after a
+ * successful move, and existing data in the target is never overwritten.
+ */
+export async function migrateFromLocalStorage(target: StorageAdapter, keys: string[]): Promise<void> {
+  if (target.kind === 'localStorage' || !isStorageKindAvailable('localStorage')) {
+    return;
+  }
+
+  for (const key of keys) {
+    const legacy = localStorage.getItem(key);
+    if (legacy === null) {
+      continue;
+    }
+
+    if (await target.getItem(key) !== null) {
+      logger.warn('Skipping localStorage migration, target already has data', { key, target: target.kind }, 'Storage');
+      continue;
+    }
+
+    await target.setItem(key, legacy);
+    localStorage.removeItem(key);
+    logger.info('Migrated data from localStorage', { key, target: target.kind, bytes: legacy.length }, 'Storage');
+  }
+}
@@ -0,0 +1,25 @@
+const MAX_TAG_LENGTH = 30;
+
+/** Trims, lowercases and de-duplicates tags, dropping empty ones. */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  tags
+    .map(tag => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter(tag => tag !== '')
+    .forEach(tag => seen.add(tag));
+  return [...seen];
+}
+
+/** Parses the comma-separated tag input used in forms. */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(','));
+}
+
+export function formatTags(tags: string[]): string {
+  return tags.join(', ');
+}
+
+export function normalizeFolder(folder: string | undefined): string | undefined {
+  const trimmed = folder?.trim();
+  return trimmed ? trimmed : undefined;
+}
@@ -0,0 +1,27 @@
+import { CreateURLOptions, URLFormData } from '../types';
+import { parseTagInput } from './tags';
+import { parseDateTimeInput } from './expiry';
+
+/** The link settings a filled-in form row asks for; validity and custom shortcode are passed separately. */
+export function toCreateOptions(urlData: URLFormData): CreateURLOptions {
+  return {
+    activatesAt: parseDateTimeInput(urlData.activatesAt),
+    expiresAt: urlData.expiryMode === 'never'
+      ? null
+      : urlData.expiryMode === 'date' ? parseDateTimeInput(urlData.expiresAt) : undefined,
+    redirectType: urlData.redirectType,
+    redirectBehavior: urlData.redirectBehavior,
+    tags: parseTagInput(urlData.tags),
+    folder: urlData.folder,
+    password: urlData.password || undefined,
+    maxClicks: urlData.maxClicks || undefined,
+    routingRules: urlData.routingRules,
+    variants: urlData.variants,
+    utm: urlData.utm,
+    passthrough: urlData.passthrough,
+    stripTracking: urlData.stripTracking,
+    onDuplicate: urlData.onDuplicate,
+    domainId: urlData.domainId,
+    fallbackUrl: urlData.fallbackUrl || undefined
+  };
+}
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorageAdapter } from './storage';
+import { DEFAULT_SHORTCODE_OPTIONS } from './shortcodes';
+import { URLShortenerService, URLShortenerServiceOptions } from './urlShortener';
+
+const createService = (options: URLShortenerServiceOptions = {}) => new URLShortenerService({
+  storage: new MemoryStorageAdapter(),
+  sync: false,
+  baseUrl: 'https://sho.rt/s/',
+  linkPrefixes: ['https://app.example/go/'],
+  ...options
+});
+
+beforeEach(() => {
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    vi.spyOn(console, method).mockImplementation(() => {});
+  }
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('duplicate destinations', () => {
+  const destination = 'https://example.com/page?b=2&a=1';
+
+  it('finds a live link to the same destination however it was typed', async () => {
+    const service = createService();
+    const existing = await service.createShortenedURL(destination);
+
+    expect((await service.findDuplicate('HTTPS://EXAMPLE.com:443/page?a=1&b=2'))?.id).toBe(existing.id);
+    expect((await service.findDuplicate('https://example.com/page?a=1&b=2&utm_source=x', true))?.id).toBe(existing.id);
+    expect(await service.findDuplicate('https://example.com/page?a=1&b=2&utm_source=x')).toBeNull();
+    expect(await service.findDuplicate('https://example.com/other')).toBeNull();
+  });
+
+  it('ignores expired links and links on other domains', async () => {
+    const service = createService();
+    const existing = await service.createShortenedURL(destination);
+    vi.setSystemTime(new Date('2024-01-01T00:10:00.000Z'));
+    await service.updateURL(existing.id, { expiresAt: new Date() });
+
+    expect(await service.findDuplicate(destination)).toBeNull();
+    expect(await service.findDuplicate(destination, false, 'brand')).toBeNull();
+  });
+
+  it('creates a new link by default', async () => {
+    const service = createService();
+    const existing = await service.createShortenedURL(destination);
+    const created = await service.createShortenedURL(destination);
+
+    expect(created.id).not.toBe(existing.id);
+    expect(await service.getAllURLs()).toHaveLength(2);
+  });
+
+  it('returns the existing link untouched when reusing it', async () => {
+    const service = createService();
+    const existing = await service.createShortenedURL(destination, 30);
+    const reused = await service.createShortenedURL(destination, 120, undefined, { onDuplicate: 'reuse', tags: ['ignored'] });
+
+    expect(reused.id).toBe(existing.id);
+    expect(reused.expiresAt).toEqual(new Date('2024-01-01T00:30:00.000Z'));
+    expect(reused.tags).toEqual([]);
+  });
+
+  it('moves the existing link\'s expiry later when extending it, never earlier', async () => {
+    const service = createService();
+    const existing = await service.createShortenedURL(destination, 30);
+
+    const extended = await service.createShortenedURL(destination, 120, undefined, { onDuplicate: 'extend' });
+    expect(extended.id).toBe(existing.id);
+    expect(extended.expiresAt).toEqual(new Date('2024-01-01T02:00:00.000Z'));
+
+    const kept = await service.createShortenedURL(destination, 10, undefined, { onDuplicate: 'extend' });
+    expect(kept.expiresAt).toEqual(new Date('2024-01-01T02:00:00.000Z'));
+  });
+
+  it('always creates the link when a custom shortcode is asked for', async () => {
+    const service = createService();
+    const existing = await service.createShortenedURL(destination);
+    const custom = await service.createShortenedURL(destination, 30, 'mine', { onDuplicate: 'reuse' });
+
+    expect(custom.id).not.toBe(existing.id);
+    expect(custom.shortCode).toBe('mine');
+  });
+});
+
+describe('redirect loops', () => {
+  it('rejects a destination that leads back through another link', async () => {
+    const service = createService();
+    await service.createShortenedURL('https://sho.rt/s/b', 30, 'a');
+
+    await expect(service.createShortenedURL('https://sho.rt/s/a', 30, 'b'))
+      .rejects.toThrow('Destination loops back through the short link "b"');
+    expect(await service.validateNewURL('https://sho.rt/s/a', 30, 'c')).toBeNull();
+  });
+
+  it('follows a link\'s fallback, since its visitors end up there once it expires', async () => {
+    const service = createService();
+    await service.createShortenedURL('https://example.com/', 30, 'a', { fallbackUrl: 'https://sho.rt/s/b' });
+
+    expect(await service.validateNewURL('https://sho.rt/s/a', 30, 'b'))
+      .toBe('Destination loops back through the short link "b"');
+  });
+
+  it('follows the fallback for unknown shortcodes, including through the app\'s own link prefix', async () => {
+    const service = createService();
+    service.configure({ notFoundFallbackUrl: 'https://app.example/go/x' });
+
+    expect(await service.validateNewURL('https://sho.rt/s/missing', 30, 'x'))
+      .toBe('Destination loops back through the short link "x"');
+
+    await service.createShortenedURL('https://example.com/', 30, 'x');
+    expect(await service.validateNewURL('https://sho.rt/s/missing', 30, 'y')).toBeNull();
+  });
+
+  it('checks edits too', async () => {
+    const service = createService();
+    const a = await service.createShortenedURL('https://example.com/', 30, 'a');
+    await service.createShortenedURL('https://sho.rt/s/a', 30, 'b');
+
+    await expect(service.updateURL(a.id, { originalUrl: 'https://sho.rt/s/b' }))
+      .rejects.toThrow('Destination loops back through the short link "a"');
+  });
+});
+
+describe('scheduled links', () => {
+  const activatesAt = new Date('2024-01-01T02:00:00.000Z');
+
+  it('can be expired by hand before they go live', async () => {
+    const service = createService();
+    const url = await service.createShortenedURL('https://example.com/', 30, 'soon', { activatesAt });
+    vi.setSystemTime(new Date('2024-01-01T00:10:00.000Z'));
+
+    const expired = await service.updateURL(url.id, { expiresAt: new Date() });
+
+    expect(expired).toMatchObject({ isExpired: true, expiredReason: 'manual' });
+    expect((await service.resolveShortCode('soon')).status).toBe('expired');
+  });
+
+  it('still can\'t be set to expire before they go live', async () => {
+    const service = createService();
+    const url = await service.createShortenedURL('https://example.com/', 30, 'soon', { activatesAt });
+
+    await expect(service.updateURL(url.id, { expiresAt: new Date('2024-01-01T01:00:00.000Z') }))
+      .rejects.toThrow('Expiry must be after the activation time');
+  });
+});
+
+describe('getActiveURLsCount', () => {
+  it('counts only links that would redirect now', async () => {
+    const service = createService();
+    await service.createShortenedURL('https://example.com/live', 30, 'live', { expiresAt: null });
+    await service.createShortenedURL('https://example.com/once', 30, 'once', { maxClicks: 1 });
+    await service.createShortenedURL('https://example.com/soon', 30, 'soon', { activatesAt: new Date('2024-01-01T02:00:00.000Z') });
+    const trashed = await service.createShortenedURL('https://example.com/trashed', 30, 'trashed');
+    await service.deleteURL(trashed.id);
+    expect(await service.getActiveURLsCount()).toBe(2);
+
+    await service.recordClick('once');
+    expect((await service.resolveShortCode('once')).status).toBe('expired');
+    expect(await service.getActiveURLsCount()).toBe(1);
+
+    vi.setSystemTime(new Date('2024-01-01T02:00:00.000Z'));
+    expect(await service.getActiveURLsCount()).toBe(2);
+  });
+});
+
+describe('password-protected links', () => {
+  const visitor = { ipAddress: '203.0.113.7' };
+
+  const createProtected = async () => {
+    const service = createService();
+    const url = await service.createShortenedURL('https://example.com/secret', 30, 'secret', { password: 'open sesame' });
+    return { service, url };
+  };
+
+  it('stores only a hash, and leaves it out of backups unless asked for', async () => {
+    const { service, url } = await createProtected();
+
+    expect(url.hasPassword).toBe(true);
+    expect(url.password?.hash).toMatch(/^[A-Za-z0-9+/]+=*$/);
+    expect(JSON.stringify(url)).not.toContain('open sesame');
+    expect((await service.resolveShortCode('secret')).status).toBe('locked');
+    expect((await service.exportLinks()).records[0]).not.toHaveProperty('password.hash');
+    expect((await service.exportLinks(true)).records[0]).toHaveProperty('password.hash', url.password?.hash);
+  });
+
+  it('unlocks with the right password and records the click', async () => {
+    const { service, url } = await createProtected();
+
+    const result = await service.unlockShortCode('secret', 'open sesame', 'direct', visitor);
+
+    expect(result.status).toBe('unlocked');
+    expect(result.url?.originalUrl).toBe('https://example.com/secret');
+    expect(result.url?.password).toBeUndefined();
+    expect(await service.getClicks(url.id)).toHaveLength(1);
+  });
+
+  it('denies a wrong password and says how many attempts are left', async () => {
+    const { service, url } = await createProtected();
+
+    expect(await service.unlockShortCode('secret', 'wrong', 'direct', visitor)).toEqual({ status: 'denied', url: null, attemptsLeft: 4 });
+    expect(await service.unlockShortCode('secret', 'wrong', 'direct', visitor)).toEqual({ status: 'denied', url: null, attemptsLeft: 3 });
+    expect(await service.getClicks(url.id)).toHaveLength(0);
+  });
+
+  it('blocks a visitor for 15 minutes after 5 wrong attempts, even with the right password', async () => {
+    const { service } = await createProtected();
+    for (let i = 0; i < 4; i++) {
+      await service.unlockShortCode('secret', 'wrong', 'direct', visitor);
+    }
+    const retryAt = new Date('2024-01-01T00:15:00.000Z');
+
+    expect(await service.unlockShortCode('secret', 'wrong', 'direct', visitor)).toEqual({ status: 'blocked', url: null, retryAt });
+    vi.setSystemTime(new Date('2024-01-01T00:14:59.000Z'));
+    expect(await service.unlockShortCode('secret', 'open sesame', 'direct', visitor)).toEqual({ status: 'blocked', url: null, retryAt });
+    // Attempts are counted per visitor address
+    expect((await service.unlockShortCode('secret', 'open sesame', 'direct', { ipAddress: '198.51.100.1' })).status).toBe('unlocked');
+  });
+
+  it('lets the visitor try again once retryAt has passed, with a fresh count', async () => {
+    const { service } = await createProtected();
+    for (let i = 0; i < 5; i++) {
+      await service.unlockShortCode('secret', 'wrong', 'direct', visitor);
+    }
+    vi.setSystemTime(new Date('2024-01-01T00:15:00.000Z'));
+
+    expect(await service.unlockShortCode('secret', 'wrong', 'direct', visitor)).toEqual({ status: 'denied', url: null, attemptsLeft: 4 });
+    expect((await service.unlockShortCode('secret', 'open sesame', 'direct', visitor)).status).toBe('unlocked');
+  });
+});
+
+describe('custom shortcodes', () => {
+  it('rejects codes the policy doesn\'t allow', async () => {
+    const service = createService();
+
+    await expect(service.createShortenedURL('https://example.com/', 30, 'admin')).rejects.toThrow('"admin" is reserved for the app\'s own pages');
+    expect(await service.checkShortcode('-promo')).toEqual({
+      available: false,
+      reason: 'Shortcode must start and end with a letter or digit',
+      suggestions: []
+    });
+  });
+
+  it('treats codes that differ only in case as different links by default', async () => {
+    const service = createService();
+    await service.createShortenedURL('https://example.com/a', 30, 'Promo');
+
+    expect((await service.checkShortcode('promo')).available).toBe(true);
+    await expect(service.createShortenedURL('https://example.com/b', 30, 'promo')).resolves.toMatchObject({ shortCode: 'promo' });
+  });
+
+  it('treats them as the same link when codes are case-insensitive', async () => {
+    const service = createService({ shortcodes: { ...DEFAULT_SHORTCODE_OPTIONS, caseInsensitive: true } });
+    await service.createShortenedURL('https://example.com/a', 30, 'Promo');
+
+    expect(await service.checkShortcode('PROMO', undefined, [])).toMatchObject({ available: false, reason: 'Custom shortcode already exists' });
+    expect(await service.checkShortcode('other', undefined, ['OTHER'])).toMatchObject({ available: false, reason: 'Already used by another link in this batch' });
+    await expect(service.createShortenedURL('https://example.com/b', 30, 'promo')).rejects.toThrow('Custom shortcode already exists');
+    expect((await service.resolveShortCode('pRoMo')).url?.shortCode).toBe('Promo');
+  });
+});
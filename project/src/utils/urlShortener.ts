@@ -1,185 +1,815 @@
-import { ShortenedURL, ClickData } from '../types';
+import {
+  ShortenedURL,
+  BrandedDomain,
+  ClickData,
+  ClickContext,
+  CreateURLOptions,
+  DestinationPolicy,
+  ExpiredReason,
+  LinkResolution,
+  RedirectStatusCode,
+  RestoreMode,
+  RestoreReport,
+  RoutingRule,
+  ShortcodeAvailability,
+  ShortcodeOptions,
+  SplitVariant,
+  URLRevision,
+  URLRevisionChange,
+  URLShortenerBackend,
+  URLUpdate,
+  UnlockResult
+} from '../types';
 import { logger } from './logger';
+import { StorageAdapter, createStorageAdapter, migrateFromLocalStorage } from './storage';
+import {
+  QUARANTINE_STORAGE_KEY,
+  QuarantinedRecord,
+  RawRecord,
+  StoredEnvelope,
+  createEnvelope,
+  decodeEnvelope,
+  encodeEnvelope,
+  parseQuarantine,
+  requireString,
+  reviveDate
+} from './schema';
+import { LINK_MIGRATIONS } from './migrations';
+import { mergeURLs } from './merge';
+import { formatTags, normalizeFolder, normalizeTags, parseTagInput } from './tags';
+import { hashPassword, verifyPassword, withoutPasswordHash } from './password';
+import { findRuleConditionError, normalizeRoutingRules, resolveDestination } from './routing';
+import { normalizeVariants } from './splitTest';
+import { normalizeUTM } from './utm';
+import { DEFAULT_REDIRECT_BEHAVIOR, findRedirectBehaviorError, normalizeRedirectBehavior } from './redirectBehavior';
+import { DEFAULT_SHORTCODE_OPTIONS, findShortcodeOptionsError, generateShortcode, suggestShortcodes } from './shortcodes';
+import { MAX_SHORTCODE_LENGTH, canonicalShortcode, findShortcodeError } from './shortcodePolicy';
+import { DEFAULT_DESTINATION_POLICY, ShortLinkResolver, findDestinationPolicyError, findNotFoundFallbackError, findRedirectLoop } from './destinationPolicy';
+import { normalizeDestination } from './normalizeUrl';
+import { DEFAULT_DOMAIN_ID, ShortLinkAddress, domainPrefix, findDomainListError, matchShortLink, parseDomainPrefix } from './domains';
 
 const STORAGE_KEY = 'url_shortener_data';
-const BASE_URL = window.location.origin + '/s/';
+const SEQUENCE_STORAGE_KEY = 'url_shortener_shortcode_sequence';
+const SYNC_CHANNEL = 'url_shortener_sync';
+const REDIRECT_STATUS_CODES: RedirectStatusCode[] = [301, 302, 307];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const MIN_PASSWORD_LENGTH = 4;
+const MAX_UNLOCK_ATTEMPTS = 5;
+const UNLOCK_BLOCK_MS = 15 * 60 * 1000;
+const MAX_SHORTCODE_SUGGESTIONS = 3;
 
-export class URLShortenerService {
+export function reviveClick(click: RawRecord): ClickData {
+  return {
+    ...(click as unknown as ClickData),
+    id: requireString(click, 'id'),
+    timestamp: reviveDate(click.timestamp, 'clicks.timestamp')
+  };
+}
+
+export function reviveURL(url: RawRecord): ShortenedURL {
+  return {
+    ...(url as unknown as ShortenedURL),
+    id: requireString(url, 'id'),
+    originalUrl: requireString(url, 'originalUrl'),
+    shortCode: requireString(url, 'shortCode'),
+    createdAt: reviveDate(url.createdAt, 'createdAt'),
+    updatedAt: reviveDate(url.updatedAt, 'updatedAt'),
+    expiresAt: url.expiresAt === null ? null : reviveDate(url.expiresAt, 'expiresAt'),
+    activatesAt: url.activatesAt ? reviveDate(url.activatesAt, 'activatesAt') : undefined,
+    deletedAt: url.deletedAt ? reviveDate(url.deletedAt, 'deletedAt') : undefined,
+    clicks: (url.clicks as RawRecord[]).map(reviveClick),
+    revisions: (url.revisions as RawRecord[]).map(revision => ({
+      ...(revision as unknown as URLRevision),
+      timestamp: reviveDate(revision.timestamp, 'revisions.timestamp')
+    }))
+  };
+}
+
+export interface URLShortenerServiceOptions {
+  storage?: StorageAdapter;
+  /** Prefix for short URLs on the default domain. Defaults to `<current origin>/s/` in the browser. */
+  baseUrl?: string;
+  /** Branded domains links can be served on besides the default one. */
+  domains?: BrandedDomain[];
+  /** Listen for and announce changes made by other tabs. Defaults to true. */
+  sync?: boolean;
+  /** Days a deleted link stays in the trash before it is purged. Defaults to 30. */
+  trashRetentionDays?: number;
+  /** How shortcodes are generated when none is given. Defaults to 6 random letters and digits. */
+  shortcodes?: ShortcodeOptions;
+  /** Which destinations links may point to. Defaults to any http(s) URL. */
+  destinations?: DestinationPolicy;
+  /** Where visitors of unknown shortcodes are sent. Unset (or empty) to report them as not found. */
+  notFoundFallbackUrl?: string;
+  /**
+   * Other URL prefixes the default domain's links are reachable under besides
+   * `baseUrl`, used to catch redirect loops. Defaults to `<current origin>/go/`
+   * in the browser.
+   */
+  linkPrefixes?: string[];
+}
+
+type URLListener = (urls: ShortenedURL[]) => void;
+
+interface SyncMessage {
+  type: 'urls-changed';
+  deletedIds: string[];
+}
+
+export class URLShortenerService implements URLShortenerBackend {
   private urls: ShortenedURL[] = [];
+  private storage: StorageAdapter;
+  private defaultDomain: BrandedDomain;
+  private domains: BrandedDomain[];
+  private trashRetentionDays: number;
+  private shortcodeOptions: ShortcodeOptions;
+  private destinationPolicy: DestinationPolicy;
+  private notFoundFallbackUrl: string | undefined;
+  private linkResolver: ShortLinkResolver;
+  /** Next value of the sequential shortcode counter. */
+  private sequence = 0;
+  private ready: Promise<void>;
+  private listeners: URLListener[] = [];
+  private deletedIds = new Set<string>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private channel: BroadcastChannel | null = null;
+  private detachStorageListener: (() => void) | null = null;
+  /** Failed password attempts per link and visitor IP. */
+  private failedUnlocks = new Map<string, { count: number; blockedUntil?: number }>();
 
-  constructor() {
-    this.loadFromStorage();
-    logger.info('URLShortenerService initialized', { urlCount: this.urls.length }, 'URLShortenerService');
+  constructor(options: URLShortenerServiceOptions = {}) {
+    this.storage = options.storage ?? createStorageAdapter();
+    const baseUrl = options.baseUrl ?? (typeof window !== 'undefined' ? window.location.origin + '/s/' : '/s/');
+    this.defaultDomain = parseDomainPrefix(baseUrl, DEFAULT_DOMAIN_ID) ?? { id: DEFAULT_DOMAIN_ID, origin: '', pathPrefix: baseUrl };
+    this.domains = options.domains ?? [];
+    this.trashRetentionDays = options.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+    this.shortcodeOptions = options.shortcodes ?? DEFAULT_SHORTCODE_OPTIONS;
+    this.destinationPolicy = options.destinations ?? DEFAULT_DESTINATION_POLICY;
+    this.notFoundFallbackUrl = options.notFoundFallbackUrl || undefined;
+    const linkPrefixes = options.linkPrefixes ?? (typeof window !== 'undefined' ? [window.location.origin + '/go/'] : []);
+    const aliases = linkPrefixes.flatMap(prefix => parseDomainPrefix(prefix, DEFAULT_DOMAIN_ID) ?? []);
+    this.linkResolver = {
+      // Relative prefixes can't match an absolute destination, so matching skips them
+      match: href => {
+        const { host, pathname } = new URL(href);
+        return matchShortLink(host, pathname, [...this.listDomains(), ...aliases]);
+      },
+      canonical: shortCode => this.canonical(shortCode),
+      // Fallbacks count too: expired links and unknown shortcodes still send visitors on
+      lookup: ({ domainId, shortCode }) => {
+        const canonical = this.canonical(shortCode);
+        const url = this.urls.find(u => !u.deletedAt && this.domainOf(u) === domainId && this.canonical(u.shortCode) === canonical);
+        if (!url) {
+          return this.notFoundFallbackUrl ? [this.notFoundFallbackUrl] : null;
+        }
+        return [
+          url.originalUrl,
+          ...url.routingRules.map(rule => rule.destination),
+          ...url.variants.map(variant => variant.destination),
+          ...(url.fallbackUrl ? [url.fallbackUrl] : [])
+        ];
+      }
+    };
+    this.ready = this.initialize();
+    if (options.sync ?? true) {
+      this.startSync();
+    }
   }
 
-  private loadFromStorage() {
+  private async initialize() {
     try {
-      const data = localStorage.getItem(STORAGE_KEY);
-      if (data) {
-        this.urls = JSON.parse(data).map((url: any) => ({
-          ...url,
-          createdAt: new Date(url.createdAt),
-          expiresAt: new Date(url.expiresAt),
-          clicks: url.clicks.map((click: any) => ({
-            ...click,
-            timestamp: new Date(click.timestamp)
-          }))
-        }));
-        logger.info('URLs loaded from storage', { count: this.urls.length }, 'URLShortenerService');
-      }
+      await migrateFromLocalStorage(this.storage, [STORAGE_KEY]);
     } catch (error) {
-      logger.error('Failed to load URLs from storage', error, 'URLShortenerService');
+      logger.error('Failed to migrate URLs from localStorage', error, 'URLShortenerService');
     }
-  }
-
-  private saveToStorage() {
+    await this.loadFromStorage();
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.urls));
-      logger.debug('URLs saved to storage', { count: this.urls.length }, 'URLShortenerService');
+      this.sequence = Number(await this.storage.getItem(SEQUENCE_STORAGE_KEY)) || 0;
     } catch (error) {
-      logger.error('Failed to save URLs to storage', error, 'URLShortenerService');
+      logger.error('Failed to load shortcode sequence', error, 'URLShortenerService');
     }
+    await this.purgeExpiredTrash();
+    logger.info('URLShortenerService initialized', { urlCount: this.urls.length, storage: this.storage.kind }, 'URLShortenerService');
+    this.notifyListeners();
+  }
+
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  subscribe(listener: URLListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
   }
 
-  private generateShortCode(): string {
-    const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+  private startSync() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(SYNC_CHANNEL);
+      this.channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+        event.data.deletedIds.forEach(id => this.deletedIds.add(id));
+        this.syncFromStorage();
+      };
+    } else if (this.storage.kind === 'localStorage' && typeof window !== 'undefined') {
+      // The storage event only fires in other tabs, which is exactly what we need.
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === STORAGE_KEY) {
+          this.syncFromStorage();
+        }
+      };
+      window.addEventListener('storage', onStorage);
+      this.detachStorageListener = () => window.removeEventListener('storage', onStorage);
     }
-    return result;
   }
 
-  private isShortCodeUnique(shortCode: string): boolean {
-    return !this.urls.some(url => url.shortCode === shortCode);
+  dispose() {
+    this.channel?.close();
+    this.channel = null;
+    this.detachStorageListener?.();
+    this.detachStorageListener = null;
+    this.listeners = [];
   }
 
-  private generateUniqueShortCode(): string {
-    let shortCode;
-    let attempts = 0;
-    do {
-      shortCode = this.generateShortCode();
-      attempts++;
-      if (attempts > 100) {
-        throw new Error('Unable to generate unique short code after 100 attempts');
+  private async syncFromStorage() {
+    await this.ready;
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        const stored = await this.readStored();
+        if (stored) {
+          this.urls = mergeURLs(this.urls, stored.records, this.deletedIds);
+        }
+        logger.debug('URLs synchronized from another tab', { count: this.urls.length }, 'URLShortenerService');
+        this.notifyListeners();
+      } catch (error) {
+        logger.error('Failed to synchronize URLs from storage', error, 'URLShortenerService');
       }
-    } while (!this.isShortCodeUnique(shortCode));
-    
-    logger.debug('Generated unique short code', { shortCode, attempts }, 'URLShortenerService');
-    return shortCode;
+    });
+    return this.writeQueue;
+  }
+
+  private async readStored() {
+    const data = await this.storage.getItem(STORAGE_KEY);
+    if (!data) {
+      return null;
+    }
+    const stored = decodeEnvelope(STORAGE_KEY, data, LINK_MIGRATIONS, reviveURL);
+    // Saved short URLs may point at a host the app has since moved away from
+    this.refreshShortUrls(stored.records);
+    return stored;
   }
 
-  private isValidUrl(url: string): boolean {
+  private async loadFromStorage() {
     try {
-      new URL(url);
-      return true;
-    } catch {
-      return false;
+      const stored = await this.readStored();
+      if (stored) {
+        this.urls = stored.records;
+        if (stored.quarantined.length > 0) {
+          await this.quarantine(stored.quarantined);
+        }
+        if (stored.migrated) {
+          await this.writeToStorage();
+        }
+        logger.info('URLs loaded from storage', { count: this.urls.length, quarantined: stored.quarantined.length }, 'URLShortenerService');
+      }
+    } catch (error) {
+      logger.error('Failed to load URLs from storage', error, 'URLShortenerService');
     }
   }
 
-  private isValidShortCode(shortCode: string): boolean {
-    return /^[a-zA-Z0-9]{1,20}$/.test(shortCode);
+  private async writeToStorage() {
+    await this.storage.setItem(STORAGE_KEY, encodeEnvelope(this.urls, LINK_MIGRATIONS));
   }
 
-  createShortenedURL(originalUrl: string, validityMinutes: number = 30, customShortcode?: string): ShortenedURL {
-    logger.info('Creating shortened URL', { originalUrl, validityMinutes, customShortcode }, 'URLShortenerService');
+  /**
+   * Writes are serialized and merge with whatever another tab saved since we
+   * last read, so two tabs saving at once don't overwrite each other's clicks.
+   * `replace` skips the merge and overwrites the stored links outright.
+   */
+  private saveToStorage(replace = false) {
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        const stored = replace ? null : await this.readStored();
+        if (stored) {
+          this.urls = mergeURLs(this.urls, stored.records, this.deletedIds);
+        }
+        await this.writeToStorage();
+        logger.debug('URLs saved to storage', { count: this.urls.length }, 'URLShortenerService');
+        this.channel?.postMessage({ type: 'urls-changed', deletedIds: [...this.deletedIds] } satisfies SyncMessage);
+      } catch (error) {
+        logger.error('Failed to save URLs to storage', error, 'URLShortenerService');
+      }
+      this.notifyListeners();
+    });
+    return this.writeQueue;
+  }
 
-    // Validation
-    if (!this.isValidUrl(originalUrl)) {
-      const error = 'Invalid URL format';
-      logger.error(error, { originalUrl }, 'URLShortenerService');
-      throw new Error(error);
+  private async quarantine(records: QuarantinedRecord[]) {
+    const existing = parseQuarantine(await this.storage.getItem(QUARANTINE_STORAGE_KEY));
+    await this.storage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify([...existing, ...records]));
+    logger.warn('Quarantined unreadable URL records', {
+      count: records.length,
+      reasons: records.map(record => record.reason)
+    }, 'URLShortenerService');
+  }
+
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    await this.ready;
+    return parseQuarantine(await this.storage.getItem(QUARANTINE_STORAGE_KEY));
+  }
+
+  /** The default domain first, then the branded ones. */
+  listDomains(): BrandedDomain[] {
+    return [this.defaultDomain, ...this.domains];
+  }
+
+  async getDomains(): Promise<BrandedDomain[]> {
+    return this.listDomains();
+  }
+
+  /** Links whose branded domain was removed fall back to the default domain. */
+  private domainOf(url: ShortenedURL): string {
+    return this.domains.some(domain => domain.id === url.domainId) ? url.domainId : DEFAULT_DOMAIN_ID;
+  }
+
+  private addressOf(url: ShortenedURL): ShortLinkAddress {
+    return { domainId: this.domainOf(url), shortCode: url.shortCode };
+  }
+
+  private shortUrlFor({ domainId, shortCode }: ShortLinkAddress): string {
+    return domainPrefix(this.domains.find(domain => domain.id === domainId) ?? this.defaultDomain) + shortCode;
+  }
+
+  private refreshShortUrls(urls: ShortenedURL[] = this.urls) {
+    urls.forEach(url => {
+      url.shortUrl = this.shortUrlFor(url);
+    });
+  }
+
+  private canonical(shortCode: string): string {
+    return canonicalShortcode(shortCode, this.shortcodeOptions.caseInsensitive);
+  }
+
+  private isShortCodeUnique(shortCode: string, domainId: string, exceptId?: string): boolean {
+    const canonical = this.canonical(shortCode);
+    return !this.urls.some(url =>
+      this.domainOf(url) === domainId && this.canonical(url.shortCode) === canonical && url.id !== exceptId
+    );
+  }
+
+  private async generateUniqueShortCode(originalUrl: string, domainId: string): Promise<string> {
+    const generated = generateShortcode(this.shortcodeOptions, {
+      originalUrl,
+      taken: new Set(this.urls.filter(url => this.domainOf(url) === domainId).map(url => this.canonical(url.shortCode))),
+      sequence: this.sequence
+    });
+    if (!generated) {
+      const message = 'Unable to generate a unique short code';
+      logger.error(message, this.shortcodeOptions, 'URLShortenerService');
+      throw new Error(message);
     }
 
-    if (validityMinutes <= 0 || validityMinutes > 10080) { // Max 1 week
-      const error = 'Validity must be between 1 and 10080 minutes';
-      logger.error(error, { validityMinutes }, 'URLShortenerService');
-      throw new Error(error);
+    if (generated.sequence !== this.sequence) {
+      this.sequence = generated.sequence;
+      try {
+        await this.storage.setItem(SEQUENCE_STORAGE_KEY, String(this.sequence));
+      } catch (error) {
+        logger.error('Failed to save shortcode sequence', error, 'URLShortenerService');
+      }
+    }
+
+    logger.debug('Generated unique short code', {
+      shortCode: generated.shortCode,
+      strategy: this.shortcodeOptions.strategy,
+      attempts: generated.attempts
+    }, 'URLShortenerService');
+    return generated.shortCode;
+  }
+
+  /**
+   * Returns why a link may not point at `destination`, or null: the scheme and
+   * domain rules of the destination policy, then redirect loops back to `self`
+   * through our own short links.
+   */
+  private findDestinationError(destination: string, self?: ShortLinkAddress): string | null {
+    const problem = findDestinationPolicyError(destination, this.destinationPolicy)
+      ?? findRedirectLoop(destination, this.linkResolver, self);
+    if (problem) {
+      logger.warn('Destination rejected', { destination, self, reason: problem }, 'URLShortenerService');
+    }
+    return problem;
+  }
+
+  /** Returns why a set of (normalized) routing rules is invalid, or null. */
+  private findRoutingError(rules: RoutingRule[], self?: ShortLinkAddress): string | null {
+    for (const [index, rule] of rules.entries()) {
+      const destinationError = this.findDestinationError(rule.destination, self);
+      if (destinationError) {
+        return `Routing rule ${index + 1}: ${destinationError}`;
+      }
+      const problem = findRuleConditionError(rule);
+      if (problem) {
+        return `Routing rule ${index + 1} ${problem}`;
+      }
+    }
+    return null;
+  }
+
+  /** Returns why a set of (normalized) split variants is invalid, or null. An empty list means no split. */
+  private findVariantError(variants: SplitVariant[], self?: ShortLinkAddress): string | null {
+    if (variants.length === 1) {
+      return 'A split needs at least two variants';
+    }
+    for (const [index, variant] of variants.entries()) {
+      const destinationError = this.findDestinationError(variant.destination, self);
+      if (destinationError) {
+        return `Variant ${index + 1}: ${destinationError}`;
+      }
+      if (!(Number.isInteger(variant.weight) && variant.weight >= 1)) {
+        return `Variant ${index + 1} needs a whole-number weight of at least 1`;
+      }
+    }
+    return null;
+  }
+
+  /** Returns the first rule a new link would break, or null if it can be created. */
+  private findCreateError(
+    originalUrl: string,
+    validityMinutes: number,
+    customShortcode: string | undefined,
+    options: CreateURLOptions
+  ): { message: string; context: Record<string, unknown> } | null {
+    const domainId = options.domainId ?? DEFAULT_DOMAIN_ID;
+    if (!this.listDomains().some(domain => domain.id === domainId)) {
+      return { message: 'Unknown domain', context: { domainId } };
+    }
+
+    const self = customShortcode ? { domainId, shortCode: customShortcode } : undefined;
+    const destinationError = this.findDestinationError(originalUrl, self);
+    if (destinationError) {
+      return { message: destinationError, context: { originalUrl } };
+    }
+
+    const { activatesAt, expiresAt } = options;
+    if (activatesAt !== undefined && isNaN(activatesAt.getTime())) {
+      return { message: 'Activation time must be a valid date', context: { activatesAt } };
+    }
+
+    if (expiresAt === undefined) {
+      if (!(validityMinutes > 0 && Number.isFinite(validityMinutes))) {
+        return { message: 'Validity must be a positive number of minutes', context: { validityMinutes } };
+      }
+    } else if (expiresAt !== null) {
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        return { message: 'Expiry must be a valid date in the future', context: { expiresAt } };
+      }
+      if (activatesAt && expiresAt <= activatesAt) {
+        return { message: 'Expiry must be after the activation time', context: { activatesAt, expiresAt } };
+      }
+    }
+
+    const redirectType = options.redirectType ?? 302;
+    if (!REDIRECT_STATUS_CODES.includes(redirectType)) {
+      return { message: 'Redirect type must be 301, 302 or 307', context: { redirectType } };
+    }
+
+    const behaviorError = options.redirectBehavior ? findRedirectBehaviorError(normalizeRedirectBehavior(options.redirectBehavior)) : null;
+    if (behaviorError) {
+      return { message: behaviorError, context: { redirectBehavior: options.redirectBehavior } };
+    }
+
+    if (options.maxClicks !== undefined && !(Number.isInteger(options.maxClicks) && options.maxClicks >= 1)) {
+      return { message: 'Click limit must be a whole number of at least 1', context: { maxClicks: options.maxClicks } };
+    }
+
+    if (options.password && options.password.length < MIN_PASSWORD_LENGTH) {
+      return { message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`, context: {} };
+    }
+
+    const routingError = this.findRoutingError(normalizeRoutingRules(options.routingRules ?? []), self);
+    if (routingError) {
+      return { message: routingError, context: { routingRules: options.routingRules } };
+    }
+
+    const variantError = this.findVariantError(normalizeVariants(options.variants ?? []), self);
+    if (variantError) {
+      return { message: variantError, context: { variants: options.variants } };
+    }
+
+    const fallbackError = options.fallbackUrl?.trim() ? this.findDestinationError(options.fallbackUrl.trim(), self) : null;
+    if (fallbackError) {
+      return { message: `Fallback URL: ${fallbackError}`, context: { fallbackUrl: options.fallbackUrl } };
     }
 
-    let shortCode: string;
     if (customShortcode) {
-      if (!this.isValidShortCode(customShortcode)) {
-        const error = 'Custom shortcode must be alphanumeric and 1-20 characters';
-        logger.error(error, { customShortcode }, 'URLShortenerService');
-        throw new Error(error);
+      const problem = findShortcodeError(customShortcode);
+      if (problem) {
+        return { message: problem, context: { customShortcode } };
       }
-      if (!this.isShortCodeUnique(customShortcode)) {
-        const error = 'Custom shortcode already exists';
-        logger.error(error, { customShortcode }, 'URLShortenerService');
-        throw new Error(error);
+      if (!this.isShortCodeUnique(customShortcode, domainId)) {
+        return { message: 'Custom shortcode already exists', context: { customShortcode, domainId } };
       }
-      shortCode = customShortcode;
-    } else {
-      shortCode = this.generateUniqueShortCode();
+    }
+
+    return null;
+  }
+
+  /** Checks a link against the same rules as `createShortenedURL` without creating it. */
+  async validateNewURL(
+    originalUrl: string,
+    validityMinutes: number = 30,
+    customShortcode?: string,
+    options: CreateURLOptions = {}
+  ): Promise<string | null> {
+    await this.ready;
+    const destination = normalizeDestination(originalUrl, options.stripTracking);
+    return this.findCreateError(destination, validityMinutes, customShortcode, options)?.message ?? null;
+  }
+
+  async findDuplicate(originalUrl: string, stripTracking = false, domainId: string = DEFAULT_DOMAIN_ID): Promise<ShortenedURL | null> {
+    await this.ready;
+    return this.findActiveDuplicate(normalizeDestination(originalUrl, stripTracking), stripTracking, domainId);
+  }
+
+  /** Links saved before destinations were normalized are normalized for the comparison too. */
+  private findActiveDuplicate(destination: string, stripTracking: boolean | undefined, domainId: string): ShortenedURL | null {
+    return this.snapshot().find(url =>
+      !url.isExpired && this.domainOf(url) === domainId && normalizeDestination(url.originalUrl, stripTracking) === destination
+    ) ?? null;
+  }
+
+  async checkDestination(destination: string, shortCode?: string, domainId: string = DEFAULT_DOMAIN_ID): Promise<string | null> {
+    await this.ready;
+    return this.findDestinationError(destination, shortCode ? { domainId, shortCode } : undefined);
+  }
+
+  async checkShortcode(
+    shortCode: string,
+    originalUrl?: string,
+    batch: string[] = [],
+    domainId: string = DEFAULT_DOMAIN_ID
+  ): Promise<ShortcodeAvailability> {
+    await this.ready;
+    const problem = findShortcodeError(shortCode);
+    if (problem) {
+      return { available: false, reason: problem, suggestions: [] };
+    }
+
+    const inBatch = new Set(batch.map(code => this.canonical(code)));
+    const isFree = (code: string) => this.isShortCodeUnique(code, domainId) && !inBatch.has(this.canonical(code));
+    if (isFree(shortCode)) {
+      return { available: true, suggestions: [] };
+    }
+
+    return {
+      available: false,
+      reason: this.isShortCodeUnique(shortCode, domainId) ? 'Already used by another link in this batch' : 'Custom shortcode already exists',
+      suggestions: suggestShortcodes(shortCode, originalUrl).filter(isFree).slice(0, MAX_SHORTCODE_SUGGESTIONS)
+    };
+  }
+
+  /**
+   * Creates a link to the normalized destination. When an active link already
+   * points there, `options.onDuplicate` decides whether that one is returned
+   * (`reuse`), returned with a later expiry (`extend`) or ignored (`create`).
+   */
+  async createShortenedURL(
+    requestedUrl: string,
+    validityMinutes: number = 30,
+    customShortcode?: string,
+    options: CreateURLOptions = {}
+  ): Promise<ShortenedURL> {
+    await this.ready;
+    logger.info('Creating shortened URL', {
+      originalUrl: requestedUrl,
+      validityMinutes,
+      customShortcode,
+      ...options,
+      password: options.password ? '[redacted]' : undefined
+    }, 'URLShortenerService');
+
+    const originalUrl = normalizeDestination(requestedUrl, options.stripTracking);
+    const invalid = this.findCreateError(originalUrl, validityMinutes, customShortcode, options);
+    if (invalid) {
+      logger.error(invalid.message, invalid.context, 'URLShortenerService');
+      throw new Error(invalid.message);
     }
 
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + validityMinutes * 60 * 1000);
+    // Relative validity counts from when the link goes live
+    const start = options.activatesAt ?? now;
+    const expiresAt = options.expiresAt === undefined
+      ? new Date(start.getTime() + validityMinutes * 60 * 1000)
+      : options.expiresAt;
+
+    const domainId = options.domainId ?? DEFAULT_DOMAIN_ID;
+    // Someone asking for a particular shortcode wants that link, not an existing one
+    const onDuplicate = customShortcode ? 'create' : options.onDuplicate ?? 'create';
+    const duplicate = onDuplicate === 'create' ? null : this.findActiveDuplicate(originalUrl, options.stripTracking, domainId);
+    if (duplicate) {
+      logger.info('Destination already shortened', { id: duplicate.id, shortCode: duplicate.shortCode, onDuplicate }, 'URLShortenerService');
+      const later = expiresAt === null ? duplicate.expiresAt !== null : duplicate.expiresAt !== null && expiresAt > duplicate.expiresAt;
+      return onDuplicate === 'extend' && later ? this.updateURL(duplicate.id, { expiresAt }) : duplicate;
+    }
+
+    const redirectType = options.redirectType ?? 302;
+    const shortCode = customShortcode || await this.generateUniqueShortCode(originalUrl, domainId);
 
     const shortenedURL: ShortenedURL = {
       id: crypto.randomUUID(),
       originalUrl,
       shortCode,
-      shortUrl: BASE_URL + shortCode,
-      validityMinutes,
+      shortUrl: this.shortUrlFor({ domainId, shortCode }),
+      domainId,
+      validityMinutes: expiresAt ? Math.round((expiresAt.getTime() - start.getTime()) / 60000) : null,
       createdAt: now,
+      updatedAt: now,
       expiresAt,
+      activatesAt: options.activatesAt,
       clicks: [],
-      isExpired: false
+      isExpired: false,
+      redirectType,
+      redirectBehavior: normalizeRedirectBehavior(options.redirectBehavior ?? DEFAULT_REDIRECT_BEHAVIOR),
+      revisions: [],
+      tags: normalizeTags(options.tags ?? []),
+      folder: normalizeFolder(options.folder),
+      hasPassword: Boolean(options.password),
+      password: options.password ? await hashPassword(options.password) : undefined,
+      maxClicks: options.maxClicks,
+      routingRules: normalizeRoutingRules(options.routingRules ?? []),
+      variants: normalizeVariants(options.variants ?? []),
+      utm: normalizeUTM(options.utm),
+      passthrough: options.passthrough ?? false,
+      fallbackUrl: options.fallbackUrl?.trim() || undefined
     };
 
     this.urls.push(shortenedURL);
-    this.saveToStorage();
+    await this.saveToStorage();
 
     logger.info('Shortened URL created successfully', { 
       id: shortenedURL.id, 
       shortCode, 
-      expiresAt 
+      domainId,
+      expiresAt,
+      activatesAt: options.activatesAt
     }, 'URLShortenerService');
 
     return shortenedURL;
   }
 
-  getURLByShortCode(shortCode: string): ShortenedURL | null {
-    const url = this.urls.find(u => u.shortCode === shortCode);
-    
-    if (url) {
-      // Check if expired
-      const now = new Date();
-      if (now > url.expiresAt) {
-        url.isExpired = true;
-        this.saveToStorage();
-        logger.warn('Attempted to access expired URL', { shortCode, expiresAt: url.expiresAt }, 'URLShortenerService');
-        return null;
-      }
+  /** Looks a shortcode up without hiding expired links, so callers can tell "gone" from "never existed". */
+  async resolveShortCode(shortCode: string, domainId: string = DEFAULT_DOMAIN_ID): Promise<LinkResolution> {
+    const resolution = await this.resolveStored(shortCode, domainId);
+    return resolution.url ? { ...resolution, url: withoutPasswordHash(resolution.url) } : resolution;
+  }
+
+  /** `resolveShortCode` with the stored link itself, so clicks can be recorded on it. */
+  private async resolveStored(shortCode: string, domainId: string): Promise<LinkResolution> {
+    const resolution = await this.lookup(shortCode, domainId);
+    if (resolution.status === 'scheduled') {
+      return { ...resolution, url: null };
+    }
+    if (resolution.status === 'active' && resolution.url?.hasPassword) {
+      return { status: 'locked', url: null };
+    }
+    if (resolution.status === 'expired' && resolution.url?.fallbackUrl) {
+      return { ...resolution, fallbackUrl: resolution.url.fallbackUrl };
     }
-    
-    return url || null;
+    if (resolution.status === 'notfound' && this.notFoundFallbackUrl) {
+      return { ...resolution, fallbackUrl: this.notFoundFallbackUrl };
+    }
+    return resolution;
   }
 
-  recordClick(shortCode: string, source: string = 'direct'): boolean {
-    const url = this.getURLByShortCode(shortCode);
-    if (!url) {
-      logger.warn('Attempted to record click for non-existent or expired URL', { shortCode }, 'URLShortenerService');
+  private async lookup(shortCode: string, domainId: string): Promise<LinkResolution> {
+    await this.ready;
+    // An exact match wins over one that only differs in case
+    const canonical = this.canonical(shortCode);
+    const onDomain = this.urls.filter(u => this.domainOf(u) === domainId);
+    const url = onDomain.find(u => u.shortCode === shortCode) ?? onDomain.find(u => this.canonical(u.shortCode) === canonical);
+
+    if (!url || url.deletedAt) {
+      return { status: 'notfound', url: null };
+    }
+
+    // Check if expired
+    if (this.refreshExpiry([url])) {
+      await this.saveToStorage();
+    }
+    if (url.isExpired) {
+      logger.warn('Attempted to access expired URL', { shortCode, domainId, reason: url.expiredReason }, 'URLShortenerService');
+      return { status: 'expired', url };
+    }
+
+    if (url.activatesAt && new Date() < url.activatesAt) {
+      logger.warn('Attempted to access URL before it goes live', { shortCode, activatesAt: url.activatesAt }, 'URLShortenerService');
+      return { status: 'scheduled', url, activatesAt: url.activatesAt };
+    }
+
+    return { status: 'active', url };
+  }
+
+  async getURLByShortCode(shortCode: string, domainId: string = DEFAULT_DOMAIN_ID): Promise<ShortenedURL | null> {
+    const { status, url } = await this.resolveShortCode(shortCode, domainId);
+    return status === 'active' ? url : null;
+  }
+
+  async recordClick(
+    shortCode: string,
+    source: string = 'direct',
+    context: ClickContext = {},
+    domainId: string = DEFAULT_DOMAIN_ID
+  ): Promise<boolean> {
+    const { status, url } = await this.resolveStored(shortCode, domainId);
+    if (status !== 'active' || !url) {
+      logger.warn('Attempted to record click for non-existent, expired, scheduled or locked URL', { shortCode, domainId }, 'URLShortenerService');
       return false;
     }
 
+    await this.addClick(url, source, context);
+    return true;
+  }
+
+  private async addClick(url: ShortenedURL, source: string, context: ClickContext) {
+    const shortCode = url.shortCode;
+    const timestamp = new Date();
+    const userAgent = context.userAgent ?? (typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown');
+    const { rule, variant } = resolveDestination(url, {
+      userAgent,
+      language: context.language,
+      timeZone: context.timeZone,
+      visitorId: context.visitorId,
+      time: timestamp
+    });
     const clickData: ClickData = {
       id: crypto.randomUUID(),
-      timestamp: new Date(),
+      timestamp,
       source,
-      location: this.getLocationFromIP(),
-      userAgent: navigator.userAgent,
-      ipAddress: 'client-side' // In real app, this would come from server
+      location: context.location ?? this.getLocationFromIP(),
+      userAgent,
+      ipAddress: context.ipAddress ?? 'client-side',
+      ...(rule ? { matchedRule: rule.id } : {}),
+      ...(variant ? { variantId: variant.id } : {})
     };
 
     url.clicks.push(clickData);
-    this.saveToStorage();
+    this.refreshExpiry([url]);
+    await this.saveToStorage();
 
-    logger.info('Click recorded', { shortCode, clickId: clickData.id, source }, 'URLShortenerService');
-    return true;
+    logger.info('Click recorded', { shortCode, clickId: clickData.id, source, matchedRule: clickData.matchedRule, variantId: clickData.variantId }, 'URLShortenerService');
+    if (url.expiredReason === 'clicks') {
+      logger.info('Link reached its click limit', { shortCode, maxClicks: url.maxClicks }, 'URLShortenerService');
+    }
+  }
+
+  async unlockShortCode(
+    shortCode: string,
+    password: string,
+    source: string = 'direct',
+    context: ClickContext = {},
+    domainId: string = DEFAULT_DOMAIN_ID
+  ): Promise<UnlockResult> {
+    const { status, url } = await this.lookup(shortCode, domainId);
+    if (status !== 'active' || !url) {
+      return { status: status === 'expired' ? 'expired' : 'notfound', url: null };
+    }
+    if (!url.hasPassword) {
+      await this.addClick(url, source, context);
+      return { status: 'unlocked', url: withoutPasswordHash(url) };
+    }
+
+    const attemptKey = `${url.id}:${context.ipAddress ?? ''}`;
+    const attempts = this.failedUnlocks.get(attemptKey);
+    if (attempts?.blockedUntil) {
+      if (attempts.blockedUntil > Date.now()) {
+        logger.warn('Blocked password attempt for protected link', { shortCode }, 'URLShortenerService');
+        return { status: 'blocked', url: null, retryAt: new Date(attempts.blockedUntil) };
+      }
+      this.failedUnlocks.delete(attemptKey);
+    }
+
+    if (!url.password || !await verifyPassword(password, url.password)) {
+      const count = (this.failedUnlocks.get(attemptKey)?.count ?? 0) + 1;
+      const attemptsLeft = MAX_UNLOCK_ATTEMPTS - count;
+      logger.warn('Incorrect password for protected link', { shortCode, failedAttempts: count }, 'URLShortenerService');
+      if (attemptsLeft <= 0) {
+        const blockedUntil = Date.now() + UNLOCK_BLOCK_MS;
+        this.failedUnlocks.set(attemptKey, { count, blockedUntil });
+        return { status: 'blocked', url: null, retryAt: new Date(blockedUntil) };
+      }
+      this.failedUnlocks.set(attemptKey, { count });
+      return { status: 'denied', url: null, attemptsLeft };
+    }
+
+    this.failedUnlocks.delete(attemptKey);
+    await this.addClick(url, source, context);
+    logger.info('Protected link unlocked', { shortCode }, 'URLShortenerService');
+    return { status: 'unlocked', url: withoutPasswordHash(url) };
   }
 
   private getLocationFromIP(): string {
@@ -188,36 +818,544 @@ export class URLShortenerService {
     return locations[Math.floor(Math.random() * locations.length)];
   }
 
-  getAllURLs(): ShortenedURL[] {
+  /** Keeps a reason the link already expired for, as long as it still applies. */
+  private getExpiredReason(url: ShortenedURL, now: Date): ExpiredReason | undefined {
+    const applies: Record<ExpiredReason, boolean> = {
+      time: url.expiresAt !== null && now > url.expiresAt,
+      // Expiring by hand sets expiresAt to the current moment
+      manual: url.expiresAt !== null && now >= url.expiresAt,
+      clicks: url.maxClicks !== undefined && url.clicks.length >= url.maxClicks
+    };
+    if (url.expiredReason && applies[url.expiredReason]) {
+      return url.expiredReason;
+    }
+    if (applies.clicks) {
+      return 'clicks';
+    }
+    return applies.time ? 'time' : undefined;
+  }
+
+  private refreshExpiry(urls: ShortenedURL[] = this.urls): boolean {
+    const now = new Date();
+    let changed = false;
+    urls.forEach(url => {
+      const reason = this.getExpiredReason(url, now);
+      if (url.isExpired !== (reason !== undefined) || url.expiredReason !== reason) {
+        url.isExpired = reason !== undefined;
+        url.expiredReason = reason;
+        changed = true;
+      }
+    });
+    return changed;
+  }
+
+  private snapshot(): ShortenedURL[] {
+    this.refreshExpiry();
+    return this.urls
+      .filter(url => !url.deletedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getAllURLs(): Promise<ShortenedURL[]> {
+    await this.ready;
+
     // Update expired status
+    if (this.refreshExpiry()) {
+      await this.saveToStorage();
+    }
+
+    return this.snapshot();
+  }
+
+  async getClicks(id: string): Promise<ClickData[] | null> {
+    await this.ready;
+    const url = this.urls.find(u => u.id === id);
+    return url ? [...url.clicks] : null;
+  }
+
+  /** Links that would redirect right now: not trashed, expired (by time, clicks or hand) or still scheduled. */
+  async getActiveURLsCount(): Promise<number> {
+    await this.ready;
+    if (this.refreshExpiry()) {
+      await this.saveToStorage();
+    }
     const now = new Date();
-    this.urls.forEach(url => {
-      url.isExpired = now > url.expiresAt;
+    return this.urls.filter(url => !url.deletedAt && !url.isExpired && !(url.activatesAt && now < url.activatesAt)).length;
+  }
+
+  /**
+   * Changes a link's destination, expiry or shortcode under the same rules as
+   * creation, recording the before/after values as a revision on the link.
+   */
+  async updateURL(id: string, update: URLUpdate, changedBy: string = 'anonymous', revertOf?: string): Promise<ShortenedURL> {
+    await this.ready;
+    logger.info('Updating URL', { id, update, changedBy }, 'URLShortenerService');
+
+    const url = this.urls.find(u => u.id === id);
+    if (!url) {
+      const error = 'URL not found';
+      logger.error(error, { id }, 'URLShortenerService');
+      throw new Error(error);
+    }
+
+    const changes: URLRevisionChange[] = [];
+
+    if (update.originalUrl !== undefined && update.originalUrl !== url.originalUrl) {
+      const error = this.findDestinationError(update.originalUrl, this.addressOf(url));
+      if (error) {
+        logger.error(error, { id, originalUrl: update.originalUrl }, 'URLShortenerService');
+        throw new Error(error);
+      }
+      changes.push({ field: 'originalUrl', from: url.originalUrl, to: update.originalUrl });
+    }
+
+    if (update.expiresAt !== undefined && update.expiresAt?.getTime() !== url.expiresAt?.getTime()) {
+      if (update.expiresAt !== null && (isNaN(update.expiresAt.getTime()) || update.expiresAt <= url.createdAt)) {
+        const error = 'Expiry must be a valid date after the link was created';
+        logger.error(error, { id, expiresAt: update.expiresAt }, 'URLShortenerService');
+        throw new Error(error);
+      }
+      changes.push({
+        field: 'expiresAt',
+        from: url.expiresAt?.toISOString() ?? '',
+        to: update.expiresAt?.toISOString() ?? ''
+      });
+    }
+
+    if (update.activatesAt !== undefined && update.activatesAt?.getTime() !== url.activatesAt?.getTime()) {
+      if (update.activatesAt !== null && isNaN(update.activatesAt.getTime())) {
+        const error = 'Activation time must be a valid date';
+        logger.error(error, { id, activatesAt: update.activatesAt }, 'URLShortenerService');
+        throw new Error(error);
+      }
+      changes.push({
+        field: 'activatesAt',
+        from: url.activatesAt?.toISOString() ?? '',
+        to: update.activatesAt?.toISOString() ?? ''
+      });
+    }
+
+    // Either date may be the one changing, so the rule from create is checked on the result.
+    // An expiry that has already passed is expiring by hand, which a scheduled link allows too.
+    const activatesAt = update.activatesAt === undefined ? url.activatesAt : update.activatesAt;
+    const expiresAt = update.expiresAt === undefined ? url.expiresAt : update.expiresAt;
+    const changesSchedule = update.activatesAt !== undefined || update.expiresAt !== undefined;
+    if (changesSchedule && activatesAt && expiresAt && expiresAt > new Date() && expiresAt <= activatesAt) {
+      const error = 'Expiry must be after the activation time';
+      logger.error(error, { id, activatesAt, expiresAt }, 'URLShortenerService');
+      throw new Error(error);
+    }
+
+    if (update.shortCode !== undefined && update.shortCode !== url.shortCode) {
+      const problem = findShortcodeError(update.shortCode);
+      if (problem) {
+        logger.error(problem, { id, shortCode: update.shortCode }, 'URLShortenerService');
+        throw new Error(problem);
+      }
+      if (!this.isShortCodeUnique(update.shortCode, this.domainOf(url), id)) {
+        const error = 'Custom shortcode already exists';
+        logger.error(error, { id, shortCode: update.shortCode }, 'URLShortenerService');
+        throw new Error(error);
+      }
+      changes.push({ field: 'shortCode', from: url.shortCode, to: update.shortCode });
+    }
+
+    if (update.tags !== undefined) {
+      const tags = formatTags(normalizeTags(update.tags));
+      if (tags !== formatTags(url.tags)) {
+        changes.push({ field: 'tags', from: formatTags(url.tags), to: tags });
+      }
+    }
+
+    if (update.folder !== undefined) {
+      const folder = normalizeFolder(update.folder) ?? '';
+      if (folder !== (url.folder ?? '')) {
+        changes.push({ field: 'folder', from: url.folder ?? '', to: folder });
+      }
+    }
+
+    if (update.maxClicks !== undefined && update.maxClicks !== (url.maxClicks ?? null)) {
+      if (update.maxClicks !== null && !(Number.isInteger(update.maxClicks) && update.maxClicks >= 1)) {
+        const error = 'Click limit must be a whole number of at least 1';
+        logger.error(error, { id, maxClicks: update.maxClicks }, 'URLShortenerService');
+        throw new Error(error);
+      }
+      changes.push({ field: 'maxClicks', from: url.maxClicks?.toString() ?? '', to: update.maxClicks?.toString() ?? '' });
+    }
+
+    if (update.routingRules !== undefined) {
+      const rules = normalizeRoutingRules(update.routingRules);
+      if (JSON.stringify(rules) !== JSON.stringify(url.routingRules)) {
+        const error = this.findRoutingError(rules, this.addressOf(url));
+        if (error) {
+          logger.error(error, { id, routingRules: update.routingRules }, 'URLShortenerService');
+          throw new Error(error);
+        }
+        changes.push({ field: 'routingRules', from: JSON.stringify(url.routingRules), to: JSON.stringify(rules) });
+      }
+    }
+
+    if (update.variants !== undefined) {
+      const variants = normalizeVariants(update.variants);
+      if (JSON.stringify(variants) !== JSON.stringify(url.variants)) {
+        const error = this.findVariantError(variants, this.addressOf(url));
+        if (error) {
+          logger.error(error, { id, variants: update.variants }, 'URLShortenerService');
+          throw new Error(error);
+        }
+        changes.push({ field: 'variants', from: JSON.stringify(url.variants), to: JSON.stringify(variants) });
+      }
+    }
+
+    if (update.utm !== undefined) {
+      const utm = normalizeUTM(update.utm ?? undefined);
+      const from = url.utm ? JSON.stringify(url.utm) : '';
+      const to = utm ? JSON.stringify(utm) : '';
+      if (to !== from) {
+        changes.push({ field: 'utm', from, to });
+      }
+    }
+
+    if (update.passthrough !== undefined && update.passthrough !== url.passthrough) {
+      changes.push({ field: 'passthrough', from: String(url.passthrough), to: String(update.passthrough) });
+    }
+
+    if (update.redirectBehavior !== undefined) {
+      const behavior = normalizeRedirectBehavior(update.redirectBehavior);
+      if (JSON.stringify(behavior) !== JSON.stringify(url.redirectBehavior)) {
+        const error = findRedirectBehaviorError(behavior);
+        if (error) {
+          logger.error(error, { id, redirectBehavior: update.redirectBehavior }, 'URLShortenerService');
+          throw new Error(error);
+        }
+        changes.push({ field: 'redirectBehavior', from: JSON.stringify(url.redirectBehavior), to: JSON.stringify(behavior) });
+      }
+    }
+
+    if (update.fallbackUrl !== undefined) {
+      const fallbackUrl = update.fallbackUrl?.trim() ?? '';
+      if (fallbackUrl !== (url.fallbackUrl ?? '')) {
+        const error = fallbackUrl ? this.findDestinationError(fallbackUrl, this.addressOf(url)) : null;
+        if (error) {
+          logger.error(`Fallback URL: ${error}`, { id, fallbackUrl }, 'URLShortenerService');
+          throw new Error(`Fallback URL: ${error}`);
+        }
+        changes.push({ field: 'fallbackUrl', from: url.fallbackUrl ?? '', to: fallbackUrl });
+      }
+    }
+
+    if (changes.length === 0) {
+      return url;
+    }
+
+    changes.forEach(change => this.applyChange(url, change.field, change.to));
+    if (changes.some(change => change.field === 'expiresAt') && url.expiresAt && url.expiresAt <= new Date()) {
+      url.expiredReason = 'manual';
+    }
+    url.updatedAt = new Date();
+    url.revisions.push({
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      changedBy: changedBy.trim() || 'anonymous',
+      changes,
+      ...(revertOf ? { revertOf } : {})
+    });
+    this.refreshExpiry();
+    await this.saveToStorage();
+
+    logger.info('URL updated', { id, fields: changes.map(change => change.field), changedBy }, 'URLShortenerService');
+    return url;
+  }
+
+  private applyChange(url: ShortenedURL, field: URLRevisionChange['field'], value: string) {
+    switch (field) {
+      case 'originalUrl':
+        url.originalUrl = value;
+        break;
+      case 'expiresAt':
+        url.expiresAt = value === '' ? null : new Date(value);
+        this.updateValidity(url);
+        break;
+      case 'activatesAt':
+        url.activatesAt = value === '' ? undefined : new Date(value);
+        this.updateValidity(url);
+        break;
+      case 'shortCode':
+        url.shortCode = value;
+        url.shortUrl = this.shortUrlFor(url);
+        break;
+      case 'tags':
+        url.tags = parseTagInput(value);
+        break;
+      case 'folder':
+        url.folder = normalizeFolder(value);
+        break;
+      case 'maxClicks':
+        url.maxClicks = value === '' ? undefined : Number(value);
+        break;
+      case 'routingRules':
+        url.routingRules = JSON.parse(value);
+        break;
+      case 'variants':
+        url.variants = JSON.parse(value);
+        break;
+      case 'utm':
+        url.utm = value === '' ? undefined : JSON.parse(value);
+        break;
+      case 'passthrough':
+        url.passthrough = value === 'true';
+        break;
+      case 'redirectBehavior':
+        url.redirectBehavior = JSON.parse(value);
+        break;
+      case 'fallbackUrl':
+        url.fallbackUrl = value || undefined;
+        break;
+    }
+  }
+
+  private updateValidity(url: ShortenedURL) {
+    const start = url.activatesAt ?? url.createdAt;
+    url.validityMinutes = url.expiresAt ? Math.round((url.expiresAt.getTime() - start.getTime()) / 60000) : null;
+  }
+
+  /** Restores the values a revision replaced, recorded as a new revision. */
+  async revertRevision(id: string, revisionId: string, changedBy: string = 'anonymous'): Promise<ShortenedURL> {
+    await this.ready;
+    const revision = this.urls.find(u => u.id === id)?.revisions.find(r => r.id === revisionId);
+    if (!revision) {
+      const error = 'Revision not found';
+      logger.error(error, { id, revisionId }, 'URLShortenerService');
+      throw new Error(error);
+    }
+
+    const update: URLUpdate = {};
+    revision.changes.forEach(change => {
+      if (change.field === 'expiresAt' || change.field === 'activatesAt') {
+        update[change.field] = change.from === '' ? null : new Date(change.from);
+      } else if (change.field === 'tags') {
+        update.tags = parseTagInput(change.from);
+      } else if (change.field === 'maxClicks') {
+        update.maxClicks = change.from === '' ? null : Number(change.from);
+      } else if (change.field === 'routingRules' || change.field === 'variants' || change.field === 'redirectBehavior') {
+        update[change.field] = JSON.parse(change.from);
+      } else if (change.field === 'utm') {
+        update.utm = change.from === '' ? null : JSON.parse(change.from);
+      } else if (change.field === 'passthrough') {
+        update.passthrough = change.from === 'true';
+      } else if (change.field === 'fallbackUrl') {
+        update.fallbackUrl = change.from === '' ? null : change.from;
+      } else {
+        update[change.field] = change.from;
+      }
     });
-    this.saveToStorage();
 
-    return [...this.urls].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    logger.info('Reverting URL revision', { id, revisionId }, 'URLShortenerService');
+    return this.updateURL(id, update, changedBy, revisionId);
+  }
+
+  async deleteURL(id: string): Promise<boolean> {
+    return (await this.deleteURLs([id])) > 0;
   }
 
-  getActiveURLsCount(): number {
+  async deleteURLs(ids: string[]): Promise<number> {
+    await this.ready;
     const now = new Date();
-    return this.urls.filter(url => now <= url.expiresAt).length;
+    const trashed = this.urls.filter(url => ids.includes(url.id) && !url.deletedAt);
+    if (trashed.length < ids.length) {
+      logger.warn('Attempted to delete non-existent or already deleted URLs', { ids }, 'URLShortenerService');
+    }
+    if (trashed.length === 0) {
+      return 0;
+    }
+
+    trashed.forEach(url => {
+      url.deletedAt = now;
+      url.updatedAt = now;
+    });
+    await this.saveToStorage();
+
+    logger.info('URLs moved to trash', { shortCodes: trashed.map(url => url.shortCode) }, 'URLShortenerService');
+    return trashed.length;
   }
 
-  deleteURL(id: string): boolean {
-    const index = this.urls.findIndex(url => url.id === id);
-    if (index === -1) {
-      logger.warn('Attempted to delete non-existent URL', { id }, 'URLShortenerService');
-      return false;
+  async getTrashedURLs(): Promise<ShortenedURL[]> {
+    await this.ready;
+    await this.purgeExpiredTrash();
+    return this.urls
+      .filter(url => url.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async restoreURLs(ids: string[]): Promise<number> {
+    await this.ready;
+    const now = new Date();
+    const restored = this.urls.filter(url => ids.includes(url.id) && url.deletedAt);
+    if (restored.length === 0) {
+      logger.warn('Attempted to restore URLs that are not in the trash', { ids }, 'URLShortenerService');
+      return 0;
     }
 
-    const url = this.urls[index];
-    this.urls.splice(index, 1);
-    this.saveToStorage();
+    restored.forEach(url => {
+      delete url.deletedAt;
+      url.updatedAt = now;
+    });
+    this.refreshExpiry();
+    await this.saveToStorage();
 
-    logger.info('URL deleted', { id, shortCode: url.shortCode }, 'URLShortenerService');
-    return true;
+    logger.info('URLs restored from trash', { shortCodes: restored.map(url => url.shortCode) }, 'URLShortenerService');
+    return restored.length;
   }
-}
 
-export const urlShortenerService = new URLShortenerService();
\ No newline at end of file
+  async purgeURLs(ids: string[]): Promise<number> {
+    await this.ready;
+    const purged = this.urls.filter(url => ids.includes(url.id) && url.deletedAt);
+    if (purged.length === 0) {
+      logger.warn('Attempted to purge URLs that are not in the trash', { ids }, 'URLShortenerService');
+      return 0;
+    }
+
+    await this.removeURLs(purged);
+    return purged.length;
+  }
+
+  private async removeURLs(purged: ShortenedURL[]) {
+    this.urls = this.urls.filter(url => !purged.includes(url));
+    purged.forEach(url => this.deletedIds.add(url.id));
+    await this.saveToStorage();
+
+    logger.info('URLs permanently deleted', { shortCodes: purged.map(url => url.shortCode) }, 'URLShortenerService');
+  }
+
+  async exportLinks(includePasswords = false): Promise<StoredEnvelope> {
+    await this.ready;
+    logger.info('Exporting links', { count: this.urls.length, includePasswords }, 'URLShortenerService');
+    return createEnvelope(includePasswords ? this.urls : this.urls.map(withoutPasswordHash), LINK_MIGRATIONS);
+  }
+
+  /**
+   * Restores links from an exported envelope, migrating older versions first.
+   * `merge` keeps existing links and skips ones already present; `replace`
+   * drops every current link. Shortcodes that are taken get a numeric suffix.
+   * Protected links exported without their password hash keep the hash of the
+   * link they replace, and are skipped when there is none, since they could
+   * neither be opened nor be left unprotected.
+   */
+  async importLinks(envelope: unknown, mode: RestoreMode): Promise<RestoreReport> {
+    await this.ready;
+    const { records, quarantined } = decodeEnvelope('backup', JSON.stringify(envelope), LINK_MIGRATIONS, reviveURL);
+    const report: RestoreReport = {
+      imported: [],
+      skipped: quarantined.map(record => ({
+        shortCode: String((record.raw as RawRecord | null)?.shortCode ?? '(unknown)'),
+        reason: record.reason
+      })),
+      renamed: []
+    };
+
+    const storedHashes = new Map(this.urls.map(url => [url.id, url.password]));
+    if (mode === 'replace') {
+      const restoredIds = new Set(records.map(url => url.id));
+      this.urls.filter(url => !restoredIds.has(url.id)).forEach(url => this.deletedIds.add(url.id));
+      this.urls = [];
+    }
+
+    const now = new Date();
+    for (const url of records) {
+      if (this.urls.some(existing => existing.id === url.id)) {
+        report.skipped.push({ shortCode: url.shortCode, reason: 'Link already exists' });
+        continue;
+      }
+      url.password ??= url.hasPassword ? storedHashes.get(url.id) : undefined;
+      if (url.hasPassword && !url.password) {
+        report.skipped.push({ shortCode: url.shortCode, reason: 'Backup was made without password hashes' });
+        continue;
+      }
+
+      const original = url.shortCode;
+      if (!this.isShortCodeUnique(original, this.domainOf(url))) {
+        url.shortCode = await this.renameShortCode(url);
+        report.renamed.push({ from: original, to: url.shortCode });
+      } else {
+        report.imported.push(original);
+      }
+      url.shortUrl = this.shortUrlFor(url);
+      url.updatedAt = now;
+      this.deletedIds.delete(url.id);
+      this.urls.push(url);
+    }
+
+    this.refreshExpiry();
+    await this.saveToStorage(mode === 'replace');
+
+    logger.info('Links restored from backup', {
+      mode,
+      imported: report.imported.length,
+      renamed: report.renamed.length,
+      skipped: report.skipped.length
+    }, 'URLShortenerService');
+    return report;
+  }
+
+  private async renameShortCode(url: ShortenedURL): Promise<string> {
+    const { shortCode } = url;
+    for (let suffix = 2; `${shortCode}${suffix}`.length <= MAX_SHORTCODE_LENGTH; suffix++) {
+      const candidate = `${shortCode}${suffix}`;
+      if (this.isShortCodeUnique(candidate, this.domainOf(url))) {
+        return candidate;
+      }
+    }
+    return this.generateUniqueShortCode(url.originalUrl, this.domainOf(url));
+  }
+
+  configure(options: Pick<URLShortenerServiceOptions, 'trashRetentionDays' | 'shortcodes' | 'destinations' | 'domains' | 'notFoundFallbackUrl'>) {
+    if (options.trashRetentionDays !== undefined) {
+      this.trashRetentionDays = options.trashRetentionDays;
+      logger.info('Trash retention updated', { days: this.trashRetentionDays }, 'URLShortenerService');
+    }
+    if (options.shortcodes !== undefined) {
+      const invalid = findShortcodeOptionsError(options.shortcodes);
+      if (invalid) {
+        logger.error(invalid, options.shortcodes, 'URLShortenerService');
+        throw new Error(invalid);
+      }
+      this.shortcodeOptions = options.shortcodes;
+      logger.info('Shortcode generation updated', this.shortcodeOptions, 'URLShortenerService');
+    }
+    if (options.destinations !== undefined) {
+      this.destinationPolicy = options.destinations;
+      logger.info('Destination policy updated', this.destinationPolicy, 'URLShortenerService');
+    }
+    if (options.domains !== undefined) {
+      const invalid = findDomainListError(options.domains, this.defaultDomain);
+      if (invalid) {
+        logger.error(invalid, options.domains, 'URLShortenerService');
+        throw new Error(invalid);
+      }
+      this.domains = options.domains;
+      this.refreshShortUrls();
+      logger.info('Branded domains updated', { domains: this.domains.map(domainPrefix) }, 'URLShortenerService');
+      this.notifyListeners();
+    }
+    if (options.notFoundFallbackUrl !== undefined) {
+      const invalid = options.notFoundFallbackUrl
+        ? findNotFoundFallbackError(options.notFoundFallbackUrl, this.destinationPolicy, this.listDomains())
+        : null;
+      if (invalid) {
+        logger.error(invalid, { notFoundFallbackUrl: options.notFoundFallbackUrl }, 'URLShortenerService');
+        throw new Error(invalid);
+      }
+      this.notFoundFallbackUrl = options.notFoundFallbackUrl || undefined;
+      logger.info('Fallback for unknown shortcodes updated', { notFoundFallbackUrl: this.notFoundFallbackUrl }, 'URLShortenerService');
+    }
+  }
+
+  private async purgeExpiredTrash() {
+    const cutoff = Date.now() - this.trashRetentionDays * 24 * 60 * 60 * 1000;
+    const expired = this.urls.filter(url => url.deletedAt && url.deletedAt.getTime() < cutoff);
+    if (expired.length > 0) {
+      logger.info('Purging links past trash retention', { count: expired.length, days: this.trashRetentionDays }, 'URLShortenerService');
+      await this.removeURLs(expired);
+    }
+  }
+}
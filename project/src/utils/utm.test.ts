@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { buildDestination } from './utm';
+
+describe('buildDestination', () => {
+  it('returns the destination untouched when there is nothing to add', () => {
+    expect(buildDestination({ passthrough: false }, 'https://example.com/?q=a%20b', { search: '?x=1' }))
+      .toBe('https://example.com/?q=a%20b');
+    expect(buildDestination({ passthrough: true }, 'https://example.com/?flag', { search: '?' }))
+      .toBe('https://example.com/?flag');
+  });
+
+  it('appends UTM parameters without re-encoding the existing query', () => {
+    const built = buildDestination({ utm: { source: 'news letter', medium: 'email' }, passthrough: false }, 'https://example.com/p?flag&q=a%20b&r=c+d');
+
+    expect(built).toBe('https://example.com/p?flag&q=a%20b&r=c+d&utm_source=news%20letter&utm_medium=email');
+  });
+
+  it('passes the short link\'s query and fragment through as they were sent', () => {
+    const built = buildDestination({ passthrough: true }, 'https://example.com/?flag', { search: '?ref=a%20b&debug', hash: '#top' });
+
+    expect(built).toBe('https://example.com/?flag&ref=a%20b&debug#top');
+  });
+
+  it('lets later parameters replace earlier ones of the same name', () => {
+    const built = buildDestination(
+      { utm: { source: 'link', campaign: 'spring' }, passthrough: true },
+      'https://example.com/?utm_source=page&id=1&flag',
+      { search: 'utm%5Fcampaign=visitor' }
+    );
+
+    expect(built).toBe('https://example.com/?id=1&flag&utm_source=link&utm%5Fcampaign=visitor');
+  });
+});
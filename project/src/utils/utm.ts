@@ -0,0 +1,73 @@
+import { ShortenedURL, UTMParams } from '../types';
+import { pairName } from './normalizeUrl';
+
+export const UTM_FIELDS: { key: keyof UTMParams; label: string; placeholder: string }[] = [
+  { key: 'source', label: 'Source', placeholder: 'newsletter' },
+  { key: 'medium', label: 'Medium', placeholder: 'email' },
+  { key: 'campaign', label: 'Campaign', placeholder: 'spring_sale' },
+  { key: 'term', label: 'Term', placeholder: 'running+shoes' },
+  { key: 'content', label: 'Content', placeholder: 'header_link' }
+];
+
+/** Trims the fields and drops empty ones; undefined when nothing is left. */
+export function normalizeUTM(utm: UTMParams | undefined): UTMParams | undefined {
+  const entries = UTM_FIELDS
+    .map(({ key }) => [key, utm?.[key]?.trim() ?? ''] as const)
+    .filter(([, value]) => value !== '');
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+export interface IncomingRequest {
+  /** Query string of the short link request, with or without the leading `?`. */
+  search?: string;
+  /** Fragment of the short link request, with or without the leading `#`. */
+  hash?: string;
+}
+
+/**
+ * Adds the link's UTM parameters to a destination and, when the link passes
+ * them through, the short link's own query parameters and fragment. Later ones
+ * win when names clash: destination, then UTM, then incoming. Parameters are
+ * added as raw pairs, so the rest of the query keeps exactly the form it had
+ * (`?flag` stays `?flag`, `%20` stays `%20`).
+ */
+export function buildDestination(url: Pick<ShortenedURL, 'utm' | 'passthrough'>, destination: string, incoming: IncomingRequest = {}): string {
+  // Leave the destination exactly as stored when there is nothing to add
+  if (!url.utm && !(url.passthrough && (incoming.search?.replace(/^\?/, '') || incoming.hash?.replace(/^#/, '')))) {
+    return destination;
+  }
+
+  let target: URL;
+  try {
+    target = new URL(destination);
+  } catch {
+    return destination;
+  }
+
+  const utmPairs = UTM_FIELDS.flatMap(({ key }) => {
+    const value = url.utm?.[key];
+    return value ? [`utm_${key}=${encodeURIComponent(value)}`] : [];
+  });
+  const incomingPairs = url.passthrough ? (incoming.search ?? '').replace(/^\?/, '').split('&').filter(pair => pair !== '') : [];
+  const pairs = [utmPairs, incomingPairs].reduce((kept, added) => {
+    const names = new Set(added.map(pairName));
+    return [...kept.filter(pair => !names.has(pairName(pair))), ...added];
+  }, target.search ? target.search.slice(1).split('&') : []);
+  if (pairs.length > 0) {
+    target.search = `?${pairs.join('&')}`;
+  }
+
+  if (url.passthrough) {
+    const hash = incoming.hash?.replace(/^#/, '');
+    if (hash) {
+      target.hash = hash;
+    }
+  }
+
+  return target.toString();
+}
+
+/** e.g. "source=newsletter, medium=email" */
+export function formatUTM(utm: UTMParams | undefined): string {
+  return UTM_FIELDS.flatMap(({ key }) => utm?.[key] ? [`${key}=${utm[key]}`] : []).join(', ');
+}